@@ -0,0 +1,77 @@
+import fs from 'fs';
+import path from 'path';
+import type { Plugin } from 'vite';
+
+export const MANIFEST_FILE = 'index.json';
+
+// Files in the content directory that are not content items
+export const RESERVED_FILES = new Set([MANIFEST_FILE, 'meta.json', 'settings.json', 'collections.json']);
+
+export interface ContentManifest {
+  version: 1;
+  generatedAt: string;
+  files: string[];
+}
+
+function readJSON<T>(file: string): T | null {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf-8')) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Scans `dir` for content item files and lists them in meta.json
+ * `contentOrder`; files whose id is not in the order follow alphabetically.
+ */
+export function buildContentManifest(dir: string): ContentManifest {
+  const files = fs.existsSync(dir)
+    ? fs.readdirSync(dir).filter((file) => file.endsWith('.json') && !RESERVED_FILES.has(file))
+    : [];
+
+  const contentOrder = readJSON<{ contentOrder?: string[] }>(path.join(dir, 'meta.json'))?.contentOrder ?? [];
+  const orderMap = new Map(contentOrder.map((id, index) => [id, index]));
+  const position = (file: string) => {
+    const id = readJSON<{ id?: string }>(path.join(dir, file))?.id;
+    return id !== undefined ? orderMap.get(id) ?? Infinity : Infinity;
+  };
+
+  const sorted = files
+    .map((file) => ({ file, position: position(file) }))
+    .sort((a, b) => a.position - b.position || a.file.localeCompare(b.file))
+    .map(({ file }) => file);
+
+  return { version: 1, generatedAt: new Date().toISOString(), files: sorted };
+}
+
+/**
+ * Serves `/<contentPath>/index.json` in dev (rebuilt on every request so new
+ * files show up immediately) and emits it into the build output.
+ */
+export function contentManifest(contentPath = 'content'): Plugin {
+  let contentDir = '';
+  // Served under the app's base URL, where the static store fetches it
+  let manifestUrl = '';
+
+  return {
+    name: 'content-manifest',
+    configResolved(config) {
+      contentDir = path.resolve(config.publicDir, contentPath);
+      manifestUrl = `${config.base}${contentPath}/${MANIFEST_FILE}`;
+    },
+    configureServer(server) {
+      server.middlewares.use(manifestUrl, (_req, res) => {
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(buildContentManifest(contentDir), null, 2));
+      });
+    },
+    generateBundle() {
+      this.emitFile({
+        type: 'asset',
+        fileName: `${contentPath}/${MANIFEST_FILE}`,
+        source: JSON.stringify(buildContentManifest(contentDir), null, 2)
+      });
+    }
+  };
+}
@@ -0,0 +1,84 @@
+import { canonical } from '@/lib/bundle';
+import type { ContentBundle } from '@/lib/bundle';
+import type { Collection, ContentItem, SiteSettings } from '@/types';
+
+export type Change<T> =
+  | { type: 'create'; value: T }
+  | { type: 'update'; value: T; current: T; fields: string[] }
+  | { type: 'delete'; current: T }
+  | { type: 'unchanged'; value: T };
+
+// What to write to the target so it matches the source
+export interface ArchiveDiff {
+  items: Change<ContentItem>[];
+  collections: Change<Collection>[];
+  // Set only when they differ
+  settings?: SiteSettings;
+  contentOrder?: string[];
+}
+
+function changedFields(a: object, b: object): string[] {
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  return [...new Set([...Object.keys(left), ...Object.keys(right)])]
+    .filter((key) => canonical(left[key]) !== canonical(right[key]))
+    .sort();
+}
+
+function diffById<T extends { id: string }>(source: T[], target: T[]): Change<T>[] {
+  const targetById = new Map(target.map((value) => [value.id, value]));
+  const sourceIds = new Set(source.map((value) => value.id));
+  const changes: Change<T>[] = source.map((value) => {
+    const current = targetById.get(value.id);
+    if (!current) return { type: 'create', value };
+    const fields = changedFields(value, current);
+    return fields.length > 0 ? { type: 'update', value, current, fields } : { type: 'unchanged', value };
+  });
+  for (const current of target) {
+    if (!sourceIds.has(current.id)) changes.push({ type: 'delete', current });
+  }
+  return changes;
+}
+
+export function diffArchives(source: ContentBundle, target: ContentBundle): ArchiveDiff {
+  const settingsChanged = source.settings && canonical(source.settings) !== canonical(target.settings);
+  const order = source.meta?.contentOrder;
+  return {
+    items: diffById(source.items, target.items),
+    collections: diffById(source.collections ?? [], target.collections ?? []),
+    settings: settingsChanged ? source.settings : undefined,
+    contentOrder: order && canonical(order) !== canonical(target.meta?.contentOrder) ? order : undefined
+  };
+}
+
+// Deletions only happen when pruning; everything else is always written
+export function pendingWrites<T>(changes: Change<T>[], prune: boolean): Change<T>[] {
+  return changes.filter((change) => change.type === 'create' || change.type === 'update' || (prune && change.type === 'delete'));
+}
+
+export function hasWrites(diff: ArchiveDiff, prune: boolean): boolean {
+  return pendingWrites(diff.items, prune).length > 0
+    || pendingWrites(diff.collections, prune).length > 0
+    || Boolean(diff.settings)
+    || Boolean(diff.contentOrder);
+}
+
+// A list after the writes; new entries go last
+export function mergeChanges<T extends { id: string }>(current: T[], changes: Change<T>[], prune: boolean): T[] {
+  const writes = pendingWrites(changes, prune);
+  const deleted = new Set(writes.flatMap((change) => (change.type === 'delete' ? [change.current.id] : [])));
+  const written = new Map(writes.flatMap((change) => (change.type === 'delete' ? [] : [[change.value.id, change.value] as const])));
+  const kept = current.filter((value) => !deleted.has(value.id)).map((value) => written.get(value.id) ?? value);
+  const added = [...written.values()].filter((value) => !current.some((c) => c.id === value.id));
+  return [...kept, ...added];
+}
+
+// The target archive after the writes, for sources that store it whole
+export function applyDiff(target: ContentBundle, diff: ArchiveDiff, prune: boolean): Omit<ContentBundle, 'format' | 'version' | 'exportedAt'> {
+  return {
+    items: mergeChanges(target.items, diff.items, prune),
+    collections: mergeChanges(target.collections ?? [], diff.collections, prune),
+    settings: diff.settings ?? target.settings,
+    meta: diff.contentOrder ? { contentOrder: diff.contentOrder } : target.meta
+  };
+}
@@ -0,0 +1,125 @@
+import { inBatches } from '@/lib/bulk';
+
+/**
+ * Minimal client for the Firestore REST API of the local emulator. Requests
+ * authenticate as "owner", which the emulator treats as an admin that
+ * bypasses security rules; the same calls against production would need a
+ * real OAuth token.
+ */
+
+export interface FirestoreRestOptions {
+  // host:port of the emulator, as in FIRESTORE_EMULATOR_HOST
+  host: string;
+  projectId: string;
+}
+
+export type FirestoreWrite =
+  | { set: string; data: object }
+  | { delete: string };
+
+type FirestoreValue =
+  | { nullValue: null }
+  | { booleanValue: boolean }
+  | { integerValue: string }
+  | { doubleValue: number }
+  | { stringValue: string }
+  | { timestampValue: string }
+  | { arrayValue: { values?: FirestoreValue[] } }
+  | { mapValue: { fields?: Record<string, FirestoreValue> } };
+
+interface FirestoreDocument {
+  name: string;
+  fields?: Record<string, FirestoreValue>;
+}
+
+function encode(value: unknown): FirestoreValue {
+  if (value === null) return { nullValue: null };
+  if (typeof value === 'boolean') return { booleanValue: value };
+  if (typeof value === 'number') return Number.isInteger(value) ? { integerValue: String(value) } : { doubleValue: value };
+  if (typeof value === 'string') return { stringValue: value };
+  if (value instanceof Date) return { timestampValue: value.toISOString() };
+  if (Array.isArray(value)) return { arrayValue: { values: value.map(encode) } };
+  if (typeof value === 'object') return { mapValue: { fields: encodeFields(value) } };
+  throw new Error(`Cannot store ${typeof value} values in Firestore`);
+}
+
+// Undefined fields are left out, as the app's Firestore store does
+function encodeFields(data: object): Record<string, FirestoreValue> {
+  return Object.fromEntries(
+    Object.entries(data).filter(([, value]) => value !== undefined).map(([key, value]) => [key, encode(value)])
+  );
+}
+
+function decode(value: FirestoreValue): unknown {
+  if ('nullValue' in value) return null;
+  if ('booleanValue' in value) return value.booleanValue;
+  if ('integerValue' in value) return Number(value.integerValue);
+  if ('doubleValue' in value) return value.doubleValue;
+  if ('stringValue' in value) return value.stringValue;
+  if ('timestampValue' in value) return new Date(value.timestampValue);
+  if ('arrayValue' in value) return (value.arrayValue.values ?? []).map(decode);
+  return decodeFields(value.mapValue.fields ?? {});
+}
+
+function decodeFields(fields: Record<string, FirestoreValue>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(fields).map(([key, value]) => [key, decode(value)]));
+}
+
+export function createFirestoreRest({ host, projectId }: FirestoreRestOptions) {
+  const database = `projects/${projectId}/databases/(default)`;
+  const root = `http://${host}/v1/${database}/documents`;
+
+  async function request<T>(url: string, init: RequestInit = {}): Promise<T | null> {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        ...init,
+        headers: { Authorization: 'Bearer owner', 'Content-Type': 'application/json' }
+      });
+    } catch (e) {
+      throw new Error(`Cannot reach the Firestore emulator at ${host}: ${(e as Error).message}`);
+    }
+    if (response.status === 404) return null;
+    if (!response.ok) throw new Error(`Firestore ${response.status}: ${await response.text()}`);
+    return (await response.json()) as T;
+  }
+
+  // Documents of a top-level collection, with their id like the app reads them
+  async function list(collection: string): Promise<Record<string, unknown>[]> {
+    const documents: Record<string, unknown>[] = [];
+    let pageToken = '';
+    do {
+      const page = await request<{ documents?: FirestoreDocument[]; nextPageToken?: string }>(
+        `${root}/${collection}?pageSize=300${pageToken ? `&pageToken=${encodeURIComponent(pageToken)}` : ''}`
+      );
+      for (const doc of page?.documents ?? []) {
+        documents.push({ ...decodeFields(doc.fields ?? {}), id: doc.name.split('/').pop() });
+      }
+      pageToken = page?.nextPageToken ?? '';
+    } while (pageToken);
+    return documents;
+  }
+
+  async function get(path: string): Promise<Record<string, unknown> | null> {
+    const doc = await request<FirestoreDocument>(`${root}/${path}`);
+    return doc && decodeFields(doc.fields ?? {});
+  }
+
+  // Each batch is one atomic commit; sets replace the whole document
+  async function commit(writes: FirestoreWrite[]): Promise<void> {
+    for (const batch of inBatches(writes)) {
+      await request(`${root}:commit`, {
+        method: 'POST',
+        body: JSON.stringify({
+          writes: batch.map((write) =>
+            'delete' in write
+              ? { delete: `${database}/documents/${write.delete}` }
+              : { update: { name: `${database}/documents/${write.set}`, fields: encodeFields(write.data) } }
+          )
+        })
+      });
+    }
+  }
+
+  return { label: `Firestore emulator ${host} (${projectId})`, list, get, commit };
+}
@@ -0,0 +1,159 @@
+import { parseArgs } from 'util';
+import { createInterface } from 'readline/promises';
+import { BundleError } from '@/lib/bundle';
+import type { ContentBundle } from '@/lib/bundle';
+import { diffArchives, hasWrites, pendingWrites } from './diff';
+import type { ArchiveDiff, Change } from './diff';
+import { validateArchive } from './validate';
+import { createDirectorySource, createFirestoreSource, createJsonFileSource } from './sources';
+import type { ArchiveSource } from './sources';
+
+const USAGE = `Usage: npm run content -- <command> [options]
+
+Commands:
+  validate   Check the static files (or --target with --check-target)
+  diff       Show what push would change in the target
+  push       Write public/content to the target
+  pull       Write the target to public/content
+
+Options:
+  --target <emulator|file.json>  Firestore emulator (default) or a bundle file
+  --dir <path>                   Static content directory (default public/content)
+  --project <id>                 Emulator project (default VITE_FIREBASE_PROJECT_ID or demo-digital-silence)
+  --prune                        Also delete what only exists on the receiving side
+  --yes                          Do not ask before writing
+  --check-target                 validate: check the target instead of the files
+`;
+
+const DEFAULT_EMULATOR_HOST = '127.0.0.1:8080';
+const DEFAULT_PROJECT = 'demo-digital-silence';
+
+interface Options {
+  target: string;
+  dir: string;
+  project?: string;
+  prune: boolean;
+  yes: boolean;
+  'check-target': boolean;
+}
+
+function createTarget(options: Options): ArchiveSource {
+  if (options.target === 'emulator') {
+    return createFirestoreSource({
+      host: process.env.FIRESTORE_EMULATOR_HOST || DEFAULT_EMULATOR_HOST,
+      projectId: options.project || process.env.VITE_FIREBASE_PROJECT_ID || DEFAULT_PROJECT
+    });
+  }
+  if (options.target.endsWith('.json')) return createJsonFileSource(options.target);
+  throw new Error(`Unknown target "${options.target}": use "emulator" or a .json file`);
+}
+
+const label = (value: { id: string; title?: string }) => `"${value.id}"${value.title ? ` ${value.title}` : ''}`;
+
+function printChanges<T extends { id: string; title?: string }>(kind: string, changes: Change<T>[], prune: boolean) {
+  for (const change of changes) {
+    if (change.type === 'create') console.log(`  + ${kind} ${label(change.value)}`);
+    if (change.type === 'update') console.log(`  ~ ${kind} ${label(change.value)}: ${change.fields.join(', ')}`);
+    if (change.type === 'delete') {
+      console.log(`  - ${kind} ${label(change.current)}${prune ? '' : ' (kept; use --prune to delete)'}`);
+    }
+  }
+}
+
+function printDiff(diff: ArchiveDiff, from: ArchiveSource, to: ArchiveSource, prune: boolean) {
+  console.log(`${from.label} -> ${to.label}`);
+  printChanges('piece', diff.items, prune);
+  printChanges('series', diff.collections, prune);
+  if (diff.settings) console.log('  ~ site settings');
+  if (diff.contentOrder) console.log('  ~ content order');
+
+  const count = (type: Change<unknown>['type']) => diff.items.filter((change) => change.type === type).length;
+  console.log(
+    `Pieces: ${count('create')} new, ${count('update')} changed, ${count('delete')} only in the target, ${count('unchanged')} unchanged`
+  );
+}
+
+function printReport(name: string, archive: ContentBundle): boolean {
+  const { errors, warnings } = validateArchive(archive);
+  for (const error of errors) console.log(`  error: ${error}`);
+  for (const warning of warnings) console.log(`  warning: ${warning}`);
+  console.log(`${name}: ${archive.items.length} pieces, ${errors.length} errors, ${warnings.length} warnings`);
+  return errors.length === 0;
+}
+
+async function confirm(question: string, options: Options): Promise<boolean> {
+  if (options.yes) return true;
+  if (!process.stdin.isTTY) {
+    console.log('Not a terminal: pass --yes to write without asking.');
+    return false;
+  }
+  const prompt = createInterface({ input: process.stdin, output: process.stdout });
+  const answer = await prompt.question(`${question} [y/N] `);
+  prompt.close();
+  return /^y(es)?$/i.test(answer.trim());
+}
+
+// Shows the differences, then writes them once confirmed
+async function sync(from: ArchiveSource, to: ArchiveSource, options: Options): Promise<number> {
+  const source = await from.read();
+  if (!printReport(from.label, source)) {
+    console.log('Fix the errors before syncing.');
+    return 1;
+  }
+  const diff = diffArchives(source, await to.read());
+  printDiff(diff, from, to, options.prune);
+  if (!hasWrites(diff, options.prune)) {
+    console.log('Nothing to write.');
+    return 0;
+  }
+  if (!(await confirm(`Write these changes to ${to.label}?`, options))) {
+    console.log('Nothing written.');
+    return 1;
+  }
+  await to.apply(diff, options.prune);
+  console.log(`Wrote ${pendingWrites(diff.items, options.prune).length} pieces to ${to.label}.`);
+  return 0;
+}
+
+async function run(command: string | undefined, options: Options): Promise<number> {
+  const files = createDirectorySource(options.dir);
+  switch (command) {
+    case 'validate': {
+      const source = options['check-target'] ? createTarget(options) : files;
+      return printReport(source.label, await source.read()) ? 0 : 1;
+    }
+    case 'diff': {
+      const target = createTarget(options);
+      const diff = diffArchives(await files.read(), await target.read());
+      printDiff(diff, files, target, options.prune);
+      return 0;
+    }
+    case 'push':
+      return sync(files, createTarget(options), options);
+    case 'pull':
+      return sync(createTarget(options), files, options);
+    default:
+      console.log(USAGE);
+      return command ? 1 : 0;
+  }
+}
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    target: { type: 'string', default: 'emulator' },
+    dir: { type: 'string', default: 'public/content' },
+    project: { type: 'string' },
+    prune: { type: 'boolean', default: false },
+    yes: { type: 'boolean', short: 'y', default: false },
+    'check-target': { type: 'boolean', default: false }
+  }
+});
+
+run(positionals[0], values as Options).then(
+  (code) => process.exit(code),
+  (e) => {
+    console.error(e instanceof BundleError ? `Invalid content: ${e.message}` : e instanceof Error ? e.message : e);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,163 @@
+import fs from 'fs';
+import path from 'path';
+import { RESERVED_FILES } from '../../plugins/contentManifest';
+import { BUNDLE_FORMAT, BUNDLE_VERSION, createBundle, toBundle } from '@/lib/bundle';
+import type { ContentBundle } from '@/lib/bundle';
+import { slugOf } from '@/lib/slug';
+import { liveSince } from '@/lib/status';
+import type { Collection, ContentItem } from '@/types';
+import { applyDiff, mergeChanges, pendingWrites } from './diff';
+import type { ArchiveDiff } from './diff';
+import { createFirestoreRest } from './firestoreRest';
+import type { FirestoreRestOptions } from './firestoreRest';
+
+/**
+ * One side of a sync. Every source reads and writes the layout of the
+ * Firestore database (content, collections, config/settings, config/meta),
+ * passed around as a content bundle.
+ */
+export interface ArchiveSource {
+  readonly label: string;
+  read(): Promise<ContentBundle>;
+  // Writes the differences computed against the last read
+  apply(diff: ArchiveDiff, prune: boolean): Promise<void>;
+}
+
+function readJSON(file: string): unknown {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (e) {
+    throw new Error(`${file}: ${(e as Error).message}`);
+  }
+}
+
+function writeJSON(file: string, data: unknown): void {
+  fs.writeFileSync(file, `${JSON.stringify(data, null, 2)}\n`);
+}
+
+/**
+ * The static files served from public/content: one JSON file per piece
+ * (any name) plus settings.json, meta.json and collections.json. Pieces
+ * keep their file names; new ones are named after their slug.
+ */
+export function createDirectorySource(dir: string): ArchiveSource {
+  const fileById = new Map<string, string>();
+  const optional = (name: string) => {
+    const file = path.join(dir, name);
+    return fs.existsSync(file) ? readJSON(file) : undefined;
+  };
+
+  const fileFor = (item: ContentItem) => {
+    const known = fileById.get(item.id);
+    if (known) return known;
+    const taken = new Set(fileById.values());
+    const name = taken.has(`${slugOf(item)}.json`) ? `${slugOf(item)}-${item.id}.json` : `${slugOf(item)}.json`;
+    fileById.set(item.id, name);
+    return name;
+  };
+
+  return {
+    label: dir,
+    read: async () => {
+      fileById.clear();
+      const files = fs.existsSync(dir)
+        ? fs.readdirSync(dir).filter((file) => file.endsWith('.json') && !RESERVED_FILES.has(file)).sort()
+        : [];
+      const items = files.map((file) => {
+        const item = readJSON(path.join(dir, file)) as ContentItem;
+        if (item && typeof item.id === 'string') fileById.set(item.id, file);
+        return item;
+      });
+      return toBundle({
+        format: BUNDLE_FORMAT,
+        version: BUNDLE_VERSION,
+        exportedAt: new Date().toISOString(),
+        items,
+        settings: optional('settings.json'),
+        meta: optional('meta.json'),
+        collections: optional('collections.json')
+      });
+    },
+    apply: async (diff, prune) => {
+      fs.mkdirSync(dir, { recursive: true });
+      for (const change of pendingWrites(diff.items, prune)) {
+        if (change.type === 'delete') {
+          const file = fileById.get(change.current.id);
+          if (file) fs.rmSync(path.join(dir, file));
+          fileById.delete(change.current.id);
+        } else {
+          writeJSON(path.join(dir, fileFor(change.value)), change.value);
+        }
+      }
+      if (pendingWrites(diff.collections, prune).length > 0) {
+        const current = (optional('collections.json') as Collection[] | undefined) ?? [];
+        writeJSON(path.join(dir, 'collections.json'), mergeChanges(current, diff.collections, prune));
+      }
+      if (diff.settings) writeJSON(path.join(dir, 'settings.json'), diff.settings);
+      if (diff.contentOrder) writeJSON(path.join(dir, 'meta.json'), { contentOrder: diff.contentOrder });
+    }
+  };
+}
+
+// A single bundle file standing in for Firestore, e.g. in CI or for a dry run
+export function createJsonFileSource(file: string): ArchiveSource {
+  const read = async () => (fs.existsSync(file) ? toBundle(readJSON(file)) : createBundle({ items: [] }));
+  return {
+    label: file,
+    read,
+    apply: async (diff, prune) => {
+      writeJSON(file, createBundle(applyDiff(await read(), diff, prune)));
+    }
+  };
+}
+
+// Pieces carry the liveAt timestamp the security rules check, as written by
+// the app's Firestore store; it is derived, so it never shows up in a diff
+const toDocument = (item: ContentItem) => ({ ...item, liveAt: liveSince(item) ?? undefined });
+
+function toItem(data: Record<string, unknown>): Record<string, unknown> {
+  const item = { ...data };
+  delete item.liveAt;
+  return item;
+}
+
+export function createFirestoreSource(options: FirestoreRestOptions): ArchiveSource {
+  const firestore = createFirestoreRest(options);
+  return {
+    label: firestore.label,
+    read: async () => {
+      const [documents, collections, settings, meta] = await Promise.all([
+        firestore.list('content'),
+        firestore.list('collections'),
+        firestore.get('config/settings'),
+        firestore.get('config/meta')
+      ]);
+      return toBundle({
+        format: BUNDLE_FORMAT,
+        version: BUNDLE_VERSION,
+        exportedAt: new Date().toISOString(),
+        items: documents.map(toItem),
+        collections,
+        settings: settings ?? undefined,
+        meta: meta ?? undefined
+      });
+    },
+    apply: async (diff, prune) => {
+      const writes = [
+        ...pendingWrites(diff.items, prune).map((change) =>
+          change.type === 'delete'
+            ? { delete: `content/${change.current.id}` }
+            : { set: `content/${change.value.id}`, data: toDocument(change.value) }
+        ),
+        ...pendingWrites(diff.collections, prune).map((change) =>
+          change.type === 'delete'
+            ? { delete: `collections/${change.current.id}` }
+            : { set: `collections/${change.value.id}`, data: change.value }
+        ),
+        ...(diff.settings ? [{ set: 'config/settings', data: diff.settings }] : []),
+        ...(diff.contentOrder ? [{ set: 'config/meta', data: { contentOrder: diff.contentOrder } }] : [])
+      ];
+      await firestore.commit(writes);
+    }
+  };
+}
@@ -0,0 +1,79 @@
+import type { ContentBundle } from '@/lib/bundle';
+import { getContentTypes, validateContentTypes } from '@/lib/contentTypes';
+import { slugOf } from '@/lib/slug';
+import { STATUSES } from '@/lib/status';
+import { normalizeTag } from '@/lib/tags';
+import type { ContentItem } from '@/types';
+
+export interface ValidationReport {
+  // Problems that break the site or the CMS; push refuses to run with any
+  errors: string[];
+  warnings: string[];
+}
+
+const DATE_FIELDS = ['createdAt', 'updatedAt', 'publishedAt', 'publishAt', 'deletedAt'] as const;
+
+const describe = (item: ContentItem) => `piece "${item.id}"${item.title ? ` (${item.title})` : ''}`;
+
+function duplicates(values: string[]): string[] {
+  return [...new Set(values.filter((value, index) => values.indexOf(value) !== index))];
+}
+
+/**
+ * Checks what the bundle format cannot: references between pieces, series
+ * and order, unique slugs, known types and statuses, and readable dates.
+ */
+export function validateArchive(archive: ContentBundle): ValidationReport {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const ids = new Set(archive.items.map((item) => item.id));
+  const live = archive.items.filter((item) => !item.deletedAt);
+
+  if (!archive.settings) warnings.push('No site settings; the app falls back to its defaults');
+  const types = getContentTypes(archive.settings ?? {});
+  const typesError = validateContentTypes(types);
+  if (typesError) errors.push(`Content types: ${typesError}`);
+
+  for (const item of archive.items) {
+    if (!types.some((type) => type.id === item.type)) {
+      warnings.push(`${describe(item)} has the unregistered type "${item.type}"`);
+    }
+    if (item.status !== undefined && !STATUSES.includes(item.status)) {
+      errors.push(`${describe(item)} has the unknown status "${item.status}"`);
+    }
+    for (const field of DATE_FIELDS) {
+      const value = item[field];
+      if (value !== undefined && Number.isNaN(new Date(value).getTime())) {
+        errors.push(`${describe(item)} has an invalid ${field}: "${value}"`);
+      }
+    }
+    if (!item.body.trim()) warnings.push(`${describe(item)} has an empty body`);
+    for (const tag of item.tags ?? []) {
+      if (tag !== normalizeTag(tag)) warnings.push(`${describe(item)} has the unnormalized tag "${tag}"`);
+    }
+  }
+
+  for (const slug of duplicates(live.map(slugOf))) {
+    errors.push(`Several pieces use the slug "${slug}"`);
+  }
+
+  const order = archive.meta?.contentOrder ?? [];
+  for (const id of duplicates(order)) errors.push(`Piece "${id}" appears twice in the content order`);
+  for (const id of order.filter((id) => !ids.has(id))) warnings.push(`The content order lists the missing piece "${id}"`);
+  const unordered = live.filter((item) => !order.includes(item.id));
+  if (archive.meta && unordered.length > 0) {
+    warnings.push(`${unordered.length} ${unordered.length === 1 ? 'piece is' : 'pieces are'} not in the content order and will be listed last`);
+  }
+
+  const collections = archive.collections ?? [];
+  for (const slug of duplicates(collections.map((series) => series.slug))) {
+    errors.push(`Several series use the slug "${slug}"`);
+  }
+  for (const series of collections) {
+    for (const id of series.itemIds.filter((id) => !ids.has(id))) {
+      errors.push(`Series "${series.title}" includes the missing piece "${id}"`);
+    }
+  }
+
+  return { errors, warnings };
+}
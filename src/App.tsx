@@ -1,10 +1,38 @@
-import { useState, useEffect, useRef } from "react";
-import { ContentType } from "./types";
-import type { ContentItem } from "./types";
+import { useState, useEffect, useMemo, useRef } from "react";
+import { TypeRenderer } from "./types";
+import type { ContentItem, Collection, ContentTypeDefinition } from "./types";
 import { useFirebaseDB } from "./hooks/useFirebaseDB";
 import { useAuth } from "./hooks/useAuth";
+import { isLive } from "./lib/status";
+import { findBySlug, slugOf } from "./lib/slug";
+import { collectTags, hasTag, tagSlug } from "./lib/tags";
+import type { TagCount } from "./lib/tags";
+import {
+  collectionMembers,
+  findCollection,
+  seriesPositions,
+} from "./lib/collections";
+import type { SeriesPosition } from "./lib/collections";
+import {
+  displayDate,
+  formatDate,
+  groupByYearAndMonth,
+  monthName,
+} from "./lib/dates";
+import {
+  findTypeByPath,
+  getContentTypes,
+  getTypeDefinition,
+} from "./lib/contentTypes";
+import { confirmLeave, useRoute } from "./hooks/useRoute";
+import { parseRoute } from "./lib/routes";
+import type { Route, CmsTab } from "./lib/routes";
+import { plainExcerpt, stripMarkup } from "./lib/markdown";
+import { buildSearchIndex, searchItems, searchSnippet } from "./lib/search";
 import CMS from "./components/CMS";
 import Login from "./components/Login";
+import Markdown, { Verse } from "./components/Markdown";
+import type { PreviewView } from "./components/PreviewPane";
 import type { ReactNode, FC } from "react";
 
 const HamburgerButton: FC<{ onClick: () => void; isOpen: boolean }> = ({
@@ -107,15 +135,172 @@ const LoadingView: FC = () => (
   </div>
 );
 
+// --- Not Found Component ---
+
+const NotFoundView: FC<{ onHome: () => void }> = ({ onHome }) => (
+  <div className="min-h-screen flex items-center justify-center bg-paper animate-fade-in">
+    <div className="text-center px-8">
+      <span className="font-sans text-xs tracking-[0.3em] uppercase text-muted block mb-6">
+        404
+      </span>
+      <h1 className="font-serif text-5xl md:text-7xl tracking-tighter mb-10">
+        Lost in the silence.
+      </h1>
+      <button
+        onClick={onHome}
+        className="font-sans text-xs font-bold tracking-[0.2em] uppercase text-muted hover:text-dark transition-colors"
+      >
+        &larr; Return Home
+      </button>
+    </div>
+  </div>
+);
+
+// --- Search ---
+
+const SearchButton: FC<{ onClick: () => void; visible: boolean }> = ({
+  onClick,
+  visible,
+}) => (
+  <button
+    onClick={onClick}
+    className={`fixed top-8 right-24 z-50 mix-blend-difference focus:outline-none h-10 font-sans text-xs font-bold tracking-[0.2em] uppercase text-white transition-opacity duration-500 ${visible ? "opacity-100" : "opacity-0 pointer-events-none"}`}
+    aria-label="Search"
+  >
+    Search
+  </button>
+);
+
+const MAX_SEARCH_RESULTS = 20;
+
+interface SearchOverlayProps {
+  items: ContentItem[];
+  types: ContentTypeDefinition[];
+  onItemClick: (item: ContentItem) => void;
+  onClose: () => void;
+}
+
+const SearchOverlay: FC<SearchOverlayProps> = ({
+  items,
+  types,
+  onItemClick,
+  onClose,
+}) => {
+  const [query, setQuery] = useState("");
+  const index = useMemo(() => buildSearchIndex(items), [items]);
+  const results = searchItems(index, query).slice(0, MAX_SEARCH_RESULTS);
+
+  return (
+    <div
+      role="dialog"
+      aria-label="Search"
+      onKeyDown={(e) => e.key === "Escape" && onClose()}
+      className="fixed inset-0 z-[60] bg-paper overflow-y-auto animate-fade-in"
+    >
+      <div className="max-w-4xl mx-auto px-6 md:px-12 pt-24 md:pt-32 pb-32">
+        <div className="flex items-center border-b border-black pb-4 mb-16">
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search the archive..."
+            aria-label="Search the archive"
+            autoFocus
+            className="flex-1 bg-transparent outline-none font-serif text-3xl md:text-5xl text-dark placeholder:text-gray-300"
+          />
+          <button
+            onClick={onClose}
+            className="ml-6 font-sans text-xs font-bold tracking-[0.2em] uppercase text-muted hover:text-dark transition-colors"
+          >
+            Close
+          </button>
+        </div>
+        {query.trim() && results.length === 0 && (
+          <p className="font-serif italic text-2xl text-muted">
+            Nothing found for &ldquo;{query.trim()}&rdquo;.
+          </p>
+        )}
+        <ul className="space-y-12">
+          {results.map((item) => (
+            <li key={item.id}>
+              <button
+                onClick={() => onItemClick(item)}
+                className="group block text-left w-full"
+              >
+                <span className="font-sans text-[10px] uppercase tracking-[0.2em] text-accent font-bold">
+                  {getTypeDefinition(types, item.type).label}
+                </span>
+                <h2 className="font-serif text-3xl md:text-4xl mt-2 mb-3 text-dark group-hover:text-accent transition-colors">
+                  {item.title || plainExcerpt(item.body, 60)}
+                </h2>
+                <p className="font-sans text-sm text-muted leading-relaxed">
+                  {searchSnippet(stripMarkup(item.body), query).map(
+                    (part, i) =>
+                      part.match ? (
+                        <mark key={i} className="bg-accent/20 text-dark">
+                          {part.text}
+                        </mark>
+                      ) : (
+                        part.text
+                      ),
+                  )}
+                </p>
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+// --- Tag Chips ---
+
+interface TagChipsProps {
+  tags?: string[];
+  onTagClick: (tag: string) => void;
+  className?: string;
+}
+
+const TagChips: FC<TagChipsProps> = ({ tags, onTagClick, className = "" }) => {
+  if (!tags?.length) return null;
+  return (
+    <ul className={`flex flex-wrap gap-2 ${className}`}>
+      {tags.map((tag) => (
+        <li key={tag}>
+          <button
+            onClick={(e) => {
+              // Chips sit inside clickable cards
+              e.stopPropagation();
+              onTagClick(tag);
+            }}
+            className="font-sans text-[10px] uppercase tracking-[0.2em] text-muted border border-gray-200 px-3 py-1 hover:text-accent hover:border-accent transition-colors"
+          >
+            #{tag}
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
 // --- Home View Components ---
 
 interface CardProps {
   item: ContentItem;
+  typeLabel: string;
   offsetIndex: number;
   onItemClick: (item: ContentItem) => void;
+  onTagClick: (tag: string) => void;
 }
 
-const Card: FC<CardProps> = ({ item, offsetIndex, onItemClick }) => (
+const Card: FC<CardProps> = ({
+  item,
+  typeLabel,
+  offsetIndex,
+  onItemClick,
+  onTagClick,
+}) => (
   <FadeInItem delay={100}>
     <div
       onClick={() => onItemClick(item)}
@@ -126,19 +311,20 @@ const Card: FC<CardProps> = ({ item, offsetIndex, onItemClick }) => (
           {`0${offsetIndex + 1}`}
         </span>
         <span className="font-sans text-[10px] uppercase tracking-[0.2em] text-muted">
-          {item.type}
+          {typeLabel}
         </span>
         <div className="flex-grow"></div>
         <span className="font-sans text-[10px] uppercase tracking-widest text-muted">
-          {item.date || "2024"}
+          {formatDate(displayDate(item))}
         </span>
       </div>
       <h2 className="font-serif text-4xl md:text-6xl mb-6 group-hover:text-accent transition-colors duration-300 leading-[1.1]">
         {item.title}
       </h2>
       <p className="font-sans text-sm md:text-base text-muted leading-loose max-w-sm line-clamp-3">
-        {item.excerpt || item.body.substring(0, 150) + "..."}
+        {item.excerpt || plainExcerpt(item.body, 150)}
       </p>
+      <TagChips tags={item.tags} onTagClick={onTagClick} className="mt-6" />
     </div>
   </FadeInItem>
 );
@@ -147,25 +333,29 @@ const Card: FC<CardProps> = ({ item, offsetIndex, onItemClick }) => (
 
 interface HomeViewProps {
   items: ContentItem[];
+  types: ContentTypeDefinition[];
   siteTitle: string;
   siteDescription: string;
   onItemClick: (item: ContentItem) => void;
+  onTagClick: (tag: string) => void;
 }
 
 const HomeView: FC<HomeViewProps> = ({
   items,
+  types,
   siteTitle,
   siteDescription,
   onItemClick,
+  onTagClick,
 }) => {
   const rightColRef = useRef<HTMLDivElement>(null);
 
-  const feedItems = items.filter(
-    (item) =>
-      item.type === ContentType.STORY ||
-      item.type === ContentType.POEM ||
-      item.type === ContentType.QUOTE,
+  // Only registered types appear in the feed
+  const feedItems = items.filter((item) =>
+    types.some((type) => type.id === item.type),
   );
+  const labelOf = (item: ContentItem) =>
+    getTypeDefinition(types, item.type).label;
 
   const leftColItems = feedItems.filter((_, i) => i % 2 === 0);
   const rightColItems = feedItems.filter((_, i) => i % 2 !== 0);
@@ -205,8 +395,10 @@ const HomeView: FC<HomeViewProps> = ({
             <Card
               key={item.id}
               item={item}
+              typeLabel={labelOf(item)}
               offsetIndex={idx * 2}
               onItemClick={onItemClick}
+              onTagClick={onTagClick}
             />
           ))}
         </div>
@@ -218,8 +410,10 @@ const HomeView: FC<HomeViewProps> = ({
             <Card
               key={item.id}
               item={item}
+              typeLabel={labelOf(item)}
               offsetIndex={idx * 2 + 1}
               onItemClick={onItemClick}
+              onTagClick={onTagClick}
             />
           ))}
         </div>
@@ -231,31 +425,31 @@ const HomeView: FC<HomeViewProps> = ({
 // --- Filtered List View ---
 
 interface FilteredListViewProps {
-  type: (typeof ContentType)[keyof typeof ContentType];
+  eyebrow: string;
+  heading: string;
   items: ContentItem[];
+  types: ContentTypeDefinition[];
   onItemClick: (item: ContentItem) => void;
 }
 
 const FilteredListView: FC<FilteredListViewProps> = ({
-  type,
+  eyebrow,
+  heading,
   items,
+  types,
   onItemClick,
 }) => {
-  const typeLabel =
-    type === ContentType.POEM
-      ? "Poetry"
-      : type === ContentType.STORY
-        ? "Stories"
-        : `${type}s`;
+  const isQuote = (item: ContentItem) =>
+    getTypeDefinition(types, item.type).renderer === TypeRenderer.QUOTE;
 
   return (
     <div className="min-h-screen pt-32 md:pt-40 pb-32 px-6 md:px-32 max-w-6xl mx-auto opacity-0 animate-fade-in">
       <header className="mb-16 md:mb-32 flex flex-col items-start animate-fade-in-up">
         <span className="font-sans text-xs tracking-[0.2em] text-muted uppercase mb-4">
-          Collection
+          {eyebrow}
         </span>
         <h1 className="font-serif text-5xl md:text-8xl mb-6 text-dark capitalize tracking-tight">
-          {typeLabel}
+          {heading}
         </h1>
         <div className="h-0.5 w-24 bg-accent"></div>
       </header>
@@ -266,10 +460,12 @@ const FilteredListView: FC<FilteredListViewProps> = ({
               onClick={() => onItemClick(item)}
               className="group cursor-pointer block hover:pl-4 transition-all duration-500 border-l border-transparent hover:border-gray-200"
             >
-              {item.type === ContentType.QUOTE ? (
+              {isQuote(item) ? (
                 <figure className="max-w-4xl">
                   <blockquote className="font-serif text-3xl md:text-5xl leading-tight group-hover:text-gray-600">
-                    &ldquo;{item.body}&rdquo;
+                    &ldquo;
+                    <Markdown source={item.body} inline />
+                    &rdquo;
                   </blockquote>
                 </figure>
               ) : (
@@ -280,7 +476,7 @@ const FilteredListView: FC<FilteredListViewProps> = ({
                     </span>
                     <span className="h-px w-8 bg-gray-200"></span>
                     <span className="font-sans text-xs tracking-widest text-muted uppercase">
-                      {item.date || "2024"}
+                      {formatDate(displayDate(item))}
                     </span>
                   </div>
                   <h2 className="font-serif text-4xl md:text-5xl mb-6 group-hover:text-accent">
@@ -301,8 +497,7 @@ const FilteredListView: FC<FilteredListViewProps> = ({
               )}
             </div>
           );
-          if (type === ContentType.QUOTE)
-            return <div key={item.id}>{content}</div>;
+          if (isQuote(item)) return <div key={item.id}>{content}</div>;
           return (
             <FadeInItem key={item.id} delay={index * 50}>
               {content}
@@ -314,20 +509,288 @@ const FilteredListView: FC<FilteredListViewProps> = ({
   );
 };
 
+// --- Tags View ---
+
+interface TagsViewProps {
+  tags: TagCount[];
+  onTagClick: (tag: string) => void;
+}
+
+const TagsView: FC<TagsViewProps> = ({ tags, onTagClick }) => (
+  <div className="min-h-screen pt-32 md:pt-40 pb-32 px-6 md:px-32 max-w-6xl mx-auto opacity-0 animate-fade-in">
+    <header className="mb-16 md:mb-32 flex flex-col items-start animate-fade-in-up">
+      <span className="font-sans text-xs tracking-[0.2em] text-muted uppercase mb-4">
+        Index
+      </span>
+      <h1 className="font-serif text-5xl md:text-8xl mb-6 text-dark tracking-tight">
+        Themes
+      </h1>
+      <div className="h-0.5 w-24 bg-accent"></div>
+    </header>
+    <ul className="flex flex-wrap gap-x-10 gap-y-6">
+      {tags.map(({ tag, slug, count }) => (
+        <li key={slug}>
+          <button
+            onClick={() => onTagClick(tag)}
+            className="group flex items-baseline space-x-3"
+          >
+            <span className="font-serif text-3xl md:text-5xl text-dark group-hover:text-accent transition-colors">
+              {tag}
+            </span>
+            <span className="font-sans text-xs font-bold tracking-widest text-accent">
+              {count}
+            </span>
+          </button>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+// --- Archive View ---
+
+interface ArchiveViewProps {
+  items: ContentItem[];
+  onItemClick: (item: ContentItem) => void;
+}
+
+const ArchiveView: FC<ArchiveViewProps> = ({ items, onItemClick }) => (
+  <div className="min-h-screen pt-32 md:pt-40 pb-32 px-6 md:px-32 max-w-6xl mx-auto opacity-0 animate-fade-in">
+    <header className="mb-16 md:mb-32 flex flex-col items-start animate-fade-in-up">
+      <span className="font-sans text-xs tracking-[0.2em] text-muted uppercase mb-4">
+        Index
+      </span>
+      <h1 className="font-serif text-5xl md:text-8xl mb-6 text-dark tracking-tight">
+        Archive
+      </h1>
+      <div className="h-0.5 w-24 bg-accent"></div>
+    </header>
+    <div className="space-y-24">
+      {groupByYearAndMonth(items).map(({ year, months }) => (
+        <section key={year}>
+          <h2 className="font-serif text-4xl md:text-6xl text-dark mb-12">
+            {year}
+          </h2>
+          <div className="space-y-12">
+            {months.map(({ month, items: monthItems }) => (
+              <div key={month} className="md:flex md:space-x-16">
+                <h3 className="font-sans text-xs tracking-widest text-accent uppercase font-bold mb-6 md:w-32 md:shrink-0">
+                  {monthName(month)}
+                </h3>
+                <ul className="flex-1 space-y-4">
+                  {monthItems.map((item) => (
+                    <li key={item.id}>
+                      <button
+                        onClick={() => onItemClick(item)}
+                        className="group flex items-baseline space-x-4 text-left"
+                      >
+                        <span className="font-sans text-[10px] uppercase tracking-widest text-muted w-24 shrink-0">
+                          {formatDate(displayDate(item))}
+                        </span>
+                        <span className="font-serif text-2xl md:text-3xl text-dark group-hover:text-accent transition-colors">
+                          {item.title || plainExcerpt(item.body, 60)}
+                        </span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        </section>
+      ))}
+    </div>
+  </div>
+);
+
+// --- Series Views ---
+
+interface CollectionsViewProps {
+  collections: { collection: Collection; count: number }[];
+  onCollectionClick: (collection: Collection) => void;
+}
+
+const CollectionsView: FC<CollectionsViewProps> = ({
+  collections,
+  onCollectionClick,
+}) => (
+  <div className="min-h-screen pt-32 md:pt-40 pb-32 px-6 md:px-32 max-w-6xl mx-auto opacity-0 animate-fade-in">
+    <header className="mb-16 md:mb-32 flex flex-col items-start animate-fade-in-up">
+      <span className="font-sans text-xs tracking-[0.2em] text-muted uppercase mb-4">
+        Index
+      </span>
+      <h1 className="font-serif text-5xl md:text-8xl mb-6 text-dark tracking-tight">
+        Series
+      </h1>
+      <div className="h-0.5 w-24 bg-accent"></div>
+    </header>
+    <div className="space-y-24">
+      {collections.map(({ collection, count }) => (
+        <FadeInItem key={collection.id}>
+          <div
+            onClick={() => onCollectionClick(collection)}
+            className="group cursor-pointer block hover:pl-4 transition-all duration-500 border-l border-transparent hover:border-gray-200"
+          >
+            <span className="font-sans text-xs tracking-widest text-accent uppercase font-bold">
+              {count} {count === 1 ? "part" : "parts"}
+            </span>
+            <h2 className="font-serif text-4xl md:text-5xl mt-4 mb-6 group-hover:text-accent">
+              {collection.title}
+            </h2>
+            {collection.description && (
+              <p className="font-sans text-muted leading-relaxed max-w-2xl">
+                {collection.description}
+              </p>
+            )}
+          </div>
+        </FadeInItem>
+      ))}
+    </div>
+  </div>
+);
+
+interface CollectionViewProps {
+  collection: Collection;
+  members: ContentItem[];
+  onItemClick: (item: ContentItem) => void;
+}
+
+const CollectionView: FC<CollectionViewProps> = ({
+  collection,
+  members,
+  onItemClick,
+}) => (
+  <div className="min-h-screen pt-32 md:pt-40 pb-32 px-6 md:px-32 max-w-6xl mx-auto opacity-0 animate-fade-in">
+    <header className="mb-16 md:mb-24 flex flex-col items-start animate-fade-in-up">
+      <span className="font-sans text-xs tracking-[0.2em] text-muted uppercase mb-4">
+        {`Series · ${members.length} ${members.length === 1 ? "part" : "parts"}`}
+      </span>
+      <h1 className="font-serif text-5xl md:text-8xl mb-6 text-dark tracking-tight">
+        {collection.title}
+      </h1>
+      <div className="h-0.5 w-24 bg-accent mb-10"></div>
+      {collection.description && (
+        <p className="font-sans text-muted leading-relaxed max-w-2xl">
+          {collection.description}
+        </p>
+      )}
+    </header>
+    {collection.coverText && (
+      <blockquote className="font-serif italic text-2xl md:text-4xl leading-snug text-gray-600 max-w-3xl mb-24 md:mb-32 whitespace-pre-line">
+        {collection.coverText}
+      </blockquote>
+    )}
+    <ol className="space-y-16">
+      {members.map((item, index) => (
+        <li key={item.id}>
+          <FadeInItem delay={index * 50}>
+            <div
+              onClick={() => onItemClick(item)}
+              className="group cursor-pointer block hover:pl-4 transition-all duration-500 border-l border-transparent hover:border-gray-200"
+            >
+              <span className="font-sans text-xs tracking-widest text-accent uppercase font-bold">
+                Part {index + 1}
+              </span>
+              <h2 className="font-serif text-3xl md:text-5xl mt-4 mb-4 group-hover:text-accent">
+                {item.title || plainExcerpt(item.body, 60)}
+              </h2>
+              {item.excerpt && (
+                <p className="font-sans text-muted leading-relaxed max-w-2xl line-clamp-2">
+                  {item.excerpt}
+                </p>
+              )}
+            </div>
+          </FadeInItem>
+        </li>
+      ))}
+    </ol>
+  </div>
+);
+
+// "Part 2 of 5" with links to the neighbouring parts
+interface SeriesNavProps {
+  position: SeriesPosition;
+  onItemClick: (item: ContentItem) => void;
+  onCollectionClick: (collection: Collection) => void;
+}
+
+const SeriesNav: FC<SeriesNavProps> = ({
+  position,
+  onItemClick,
+  onCollectionClick,
+}) => {
+  const { collection, index, total, previous, next } = position;
+  return (
+    <nav className="mt-16 pt-10 border-t border-gray-200">
+      <button
+        onClick={() => onCollectionClick(collection)}
+        className="block mx-auto mb-8 font-sans text-xs tracking-[0.2em] uppercase text-muted hover:text-accent transition-colors"
+      >
+        Part {index + 1} of {total} — {collection.title}
+      </button>
+      <div className="flex justify-between gap-8">
+        {previous ? (
+          <button
+            onClick={() => onItemClick(previous)}
+            className="group text-left"
+          >
+            <span className="block font-sans text-[10px] font-bold tracking-[0.2em] uppercase text-muted mb-2">
+              &larr; Previous
+            </span>
+            <span className="font-serif text-xl group-hover:text-accent transition-colors">
+              {previous.title || `Part ${index}`}
+            </span>
+          </button>
+        ) : (
+          <span />
+        )}
+        {next && (
+          <button
+            onClick={() => onItemClick(next)}
+            className="group text-right"
+          >
+            <span className="block font-sans text-[10px] font-bold tracking-[0.2em] uppercase text-muted mb-2">
+              Next &rarr;
+            </span>
+            <span className="font-serif text-xl group-hover:text-accent transition-colors">
+              {next.title || `Part ${index + 2}`}
+            </span>
+          </button>
+        )}
+      </div>
+    </nav>
+  );
+};
+
 // --- Detail View ---
 
 interface DetailViewProps {
   item: ContentItem;
+  type: ContentTypeDefinition;
+  series: SeriesPosition[];
   onBack: () => void;
+  onTagClick: (tag: string) => void;
+  onItemClick: (item: ContentItem) => void;
+  onCollectionClick: (collection: Collection) => void;
+  onLinkClick: (href: string) => void;
 }
 
-const DetailView: FC<DetailViewProps> = ({ item, onBack }) => {
+const DetailView: FC<DetailViewProps> = ({
+  item,
+  type,
+  series,
+  onBack,
+  onTagClick,
+  onItemClick,
+  onCollectionClick,
+  onLinkClick,
+}) => {
   const [shared, setShared] = useState(false);
 
   const handleShare = async () => {
     const shareData = {
       title: item.title || "Digital Silence",
-      text: item.excerpt || item.body.substring(0, 100),
+      text: item.excerpt || plainExcerpt(item.body, 100),
       url: window.location.href,
     };
 
@@ -378,28 +841,63 @@ const DetailView: FC<DetailViewProps> = ({ item, onBack }) => {
             className="mb-16 text-center animate-slide-down"
             style={{ animationFillMode: "both" }}
           >
-            {item.date && (
+            {displayDate(item) && (
               <span className="block font-sans text-xs tracking-widest text-accent mb-6 uppercase">
-                {item.date}
+                {formatDate(displayDate(item))}
               </span>
             )}
-            {item.title && (
+            {item.title && type.hasTitle && (
               <h1 className="font-serif text-5xl md:text-7xl leading-none mb-10 text-dark">
                 {item.title}
               </h1>
             )}
             <div className="h-px w-24 bg-gray-200 mx-auto"></div>
           </header>
-          <div
-            className="prose prose-xl prose-p:font-serif prose-p:text-gray-600 prose-p:leading-loose mx-auto first-letter:float-left first-letter:text-7xl first-letter:pr-4 first-letter:font-serif first-letter:text-dark animate-fade-in-up"
-            style={{ animationDelay: "0.2s", animationFillMode: "both" }}
-          >
-            {item.body.split("\n").map((paragraph, idx) => (
-              <p key={idx} className="mb-8">
-                {paragraph}
-              </p>
-            ))}
-          </div>
+          {type.renderer === TypeRenderer.QUOTE ? (
+            <blockquote
+              className="font-serif text-3xl md:text-5xl leading-tight text-center text-dark animate-fade-in-up"
+              style={{ animationDelay: "0.2s", animationFillMode: "both" }}
+            >
+              &ldquo;
+              <Markdown
+                source={item.body}
+                onInternalLink={onLinkClick}
+                inline
+              />
+              &rdquo;
+            </blockquote>
+          ) : type.renderer === TypeRenderer.VERSE ? (
+            <div
+              className="w-fit max-w-full mx-auto font-serif text-xl md:text-2xl text-gray-600 leading-loose animate-fade-in-up"
+              style={{ animationDelay: "0.2s", animationFillMode: "both" }}
+            >
+              <Verse
+                source={item.body}
+                lineNumbers={item.lineNumbers}
+                onInternalLink={onLinkClick}
+              />
+            </div>
+          ) : (
+            <div
+              className="prose prose-xl prose-p:font-serif prose-p:text-gray-600 prose-p:leading-loose mx-auto first-letter:float-left first-letter:text-7xl first-letter:pr-4 first-letter:font-serif first-letter:text-dark animate-fade-in-up"
+              style={{ animationDelay: "0.2s", animationFillMode: "both" }}
+            >
+              <Markdown source={item.body} onInternalLink={onLinkClick} />
+            </div>
+          )}
+          <TagChips
+            tags={item.tags}
+            onTagClick={onTagClick}
+            className="justify-center mt-16 pt-10 border-t border-gray-200"
+          />
+          {series.map((position) => (
+            <SeriesNav
+              key={position.collection.id}
+              position={position}
+              onItemClick={onItemClick}
+              onCollectionClick={onCollectionClick}
+            />
+          ))}
         </article>
       </div>
     </div>
@@ -408,72 +906,265 @@ const DetailView: FC<DetailViewProps> = ({ item, onBack }) => {
 
 // --- Main App Component ---
 
-type ViewType =
-  | "HOME"
-  | (typeof ContentType)[keyof typeof ContentType]
-  | "CMS"
-  | "LOGIN";
+// Content type lists are inserted after Home, in registry order
+const navLinks = (
+  types: ContentTypeDefinition[],
+): { label: string; route: Route }[] => [
+  { label: "Home", route: { name: "home" } },
+  ...types.map((type) => ({
+    label: type.plural,
+    route: { name: "list", path: type.path } as Route,
+  })),
+  { label: "Series", route: { name: "collections" } },
+  { label: "Themes", route: { name: "tags" } },
+  { label: "Archive", route: { name: "archive" } },
+  { label: "CMS", route: { name: "cms", tab: "content" } },
+];
 
 function App() {
   const [menuOpen, setMenuOpen] = useState(false);
-  const [currentView, setCurrentView] = useState<ViewType>("HOME");
-  const [selectedItem, setSelectedItem] = useState<ContentItem | null>(null);
+  const [searchOpen, setSearchOpen] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const [directItem, setDirectItem] = useState<ContentItem | null>(null);
+  const { route, navigate, back } = useRoute();
 
   const {
     items,
+    collections,
     settings,
     isLoading,
+    error,
     isFirebaseConfigured,
     saveItem,
+    saveItems,
     deleteItem,
+    deleteItems,
+    importBundle,
+    restoreItem,
+    purgeItem,
+    purgeExpired,
     saveSettings,
+    saveMeta,
+    saveCollection,
+    deleteCollection,
+    listRevisions,
+    getItemBySlug,
+    refetch,
   } = useFirebaseDB();
-  const { isAuthenticated, login, logout } = useAuth();
+  const {
+    user,
+    role,
+    isAuthenticated,
+    isLoading: isAuthLoading,
+    error: authError,
+    can,
+    login,
+    logout,
+  } = useAuth();
+
+  // Readers are only sent live pieces; signing in loads drafts and the trash
+  useEffect(() => {
+    if (isAuthenticated && isFirebaseConfigured) refetch();
+  }, [isAuthenticated, isFirebaseConfigured, refetch]);
+
+  // "/" opens search anywhere on the public site, except while typing
+  const isPublic = route.name !== "cms";
+  useEffect(() => {
+    if (!isPublic) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (e.key !== "/" || target.closest("input, textarea, select")) return;
+      e.preventDefault();
+      setSearchOpen(true);
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [isPublic]);
+
+  // Re-check every minute so scheduled pieces appear without a reload
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // A deep-linked piece is fetched on its own so it can be shown before the
+  // whole archive has loaded
+  const pieceSlug = route.name === "piece" ? route.slug : null;
+  useEffect(() => {
+    if (!pieceSlug || !isLoading) return;
+    let cancelled = false;
+    getItemBySlug(pieceSlug).then((item) => {
+      if (!cancelled) setDirectItem(item);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [pieceSlug, isLoading, getItemBySlug]);
 
-  const handleNav = (view: ViewType) => {
+  // Readers only see published pieces whose publish time has passed
+  const publicItems = items.filter((item) => isLive(item, now));
+
+  const contentTypes = getContentTypes(settings);
+  const listType =
+    route.name === "list"
+      ? findTypeByPath(contentTypes, route.path)
+      : undefined;
+
+  const findPiece = (slug: string) => {
+    const loaded = findBySlug(publicItems, slug);
+    if (loaded || !isLoading) return loaded;
+    return directItem &&
+      findBySlug([directItem], slug) &&
+      isLive(directItem, now)
+      ? directItem
+      : undefined;
+  };
+  const selectedItem = pieceSlug ? findPiece(pieceSlug) : undefined;
+
+  const tags = collectTags(publicItems);
+  const selectedTag =
+    route.name === "tag"
+      ? tags.find((entry) => entry.slug === route.tag)
+      : undefined;
+
+  // Series only count their live parts; empty ones are not listed
+  const publicCollections = collections
+    .map((collection) => ({
+      collection,
+      count: collectionMembers(collection, publicItems).length,
+    }))
+    .filter(({ count }) => count > 0)
+    .sort((a, b) => a.collection.title.localeCompare(b.collection.title));
+  const selectedCollection =
+    route.name === "collection"
+      ? findCollection(collections, route.slug)
+      : undefined;
+
+  // Old slugs and bare ids redirect to the canonical URL
+  const canonicalSlug = selectedItem ? slugOf(selectedItem) : null;
+  useEffect(() => {
+    if (pieceSlug && canonicalSlug && pieceSlug !== canonicalSlug) {
+      navigate({ name: "piece", slug: canonicalSlug }, { replace: true });
+    }
+  }, [pieceSlug, canonicalSlug, navigate]);
+
+  useEffect(() => {
+    document.title = selectedItem?.title
+      ? `${selectedItem.title} — ${settings.siteTitle}`
+      : settings.siteTitle;
+  }, [selectedItem?.title, settings.siteTitle]);
+
+  const handleNav = (next: Route) => {
     setMenuOpen(false);
-    setTimeout(() => {
-      setSelectedItem(null);
-      if (view === "CMS" && !isAuthenticated) {
-        setCurrentView("LOGIN");
-      } else {
-        setCurrentView(view);
-      }
-      window.scrollTo(0, 0);
-    }, 400);
+    setTimeout(() => navigate(next), 400);
   };
 
   const handleItemClick = (item: ContentItem) => {
-    setSelectedItem(item);
-    window.scrollTo(0, 0);
+    navigate({ name: "piece", slug: slugOf(item) });
+  };
+
+  const handleSearchResultClick = (item: ContentItem) => {
+    setSearchOpen(false);
+    handleItemClick(item);
+  };
+
+  const handleTagClick = (tag: string) => {
+    navigate({ name: "tag", tag: tagSlug(tag) });
+  };
+
+  const handleCollectionClick = (collection: Collection) => {
+    navigate({ name: "collection", slug: collection.slug });
+  };
+
+  // Links between pieces in a body stay inside the app
+  const handleLinkClick = (href: string) => {
+    navigate(parseRoute(new URL(href, window.location.origin).pathname));
   };
 
   const handleBack = () => {
-    setSelectedItem(null);
-    window.scrollTo(0, 0);
+    back({ name: "home" });
   };
 
   const handleHomeClick = () => {
     if (menuOpen) return;
-    setSelectedItem(null);
-    setCurrentView("HOME");
-    window.scrollTo(0, 0);
+    navigate({ name: "home" });
   };
 
-  const handleLoginSubmit = async (password: string) => {
-    const success = await login(password);
-    if (success) {
-      setCurrentView("CMS");
+  const handleTabChange = (tab: CmsTab) => {
+    if (route.name !== "cms" || route.tab !== tab) {
+      navigate({ name: "cms", tab });
     }
-    return success;
   };
 
-  const handleLogout = () => {
-    logout();
-    setCurrentView("HOME");
+  const handleLoginSubmit = (email: string, password: string) =>
+    login(email, password);
+
+  // Revisions record who saved them
+  const handleSaveItem = (item: ContentItem) =>
+    saveItem(item, user?.email ?? undefined);
+
+  // The CMS previews unsaved pieces through the same views readers get,
+  // in place of their saved version
+  const renderPreview = (item: ContentItem, view: PreviewView) => {
+    const type = getTypeDefinition(contentTypes, item.type);
+    const ignore = () => {};
+    switch (view) {
+      case "detail":
+        return (
+          <DetailView
+            item={item}
+            type={type}
+            series={seriesPositions(collections, item, [
+              ...publicItems.filter((i) => i.id !== item.id),
+              item,
+            ])}
+            onBack={ignore}
+            onTagClick={ignore}
+            onItemClick={ignore}
+            onCollectionClick={ignore}
+            onLinkClick={ignore}
+          />
+        );
+      case "card":
+        return (
+          <div className="max-w-[1600px] mx-auto px-6 md:px-12 pt-16 flex flex-col md:flex-row gap-8 md:gap-32">
+            <div className="w-full md:w-1/2 flex flex-col">
+              <Card
+                item={item}
+                typeLabel={type.label}
+                offsetIndex={0}
+                onItemClick={ignore}
+                onTagClick={ignore}
+              />
+            </div>
+          </div>
+        );
+      case "list": {
+        const listed = publicItems.filter((i) => i.type === item.type);
+        return (
+          <FilteredListView
+            eyebrow="Collection"
+            heading={type.plural}
+            items={
+              listed.some((i) => i.id === item.id)
+                ? listed.map((i) => (i.id === item.id ? item : i))
+                : [item, ...listed]
+            }
+            types={contentTypes}
+            onItemClick={ignore}
+          />
+        );
+      }
+    }
   };
 
-  if (isLoading) {
+  const handleLogout = async () => {
+    if (!confirmLeave()) return;
+    await logout();
+    navigate({ name: "home" });
+  };
+
+  if ((isLoading && !selectedItem) || (route.name === "cms" && isAuthLoading)) {
     return <LoadingView />;
   }
 
@@ -503,16 +1194,10 @@ function App() {
             </div>
           </div>
           <nav className="flex flex-col items-center md:items-end justify-center space-y-6 mt-16 md:mt-0 text-white/70">
-            {[
-              { label: "Home", view: "HOME" as const },
-              { label: "Stories", view: ContentType.STORY },
-              { label: "Poetry", view: ContentType.POEM },
-              { label: "Quotes", view: ContentType.QUOTE },
-              { label: "CMS", view: "CMS" as const },
-            ].map((link, i) => (
+            {navLinks(contentTypes).map((link, i) => (
               <button
                 key={link.label}
-                onClick={() => handleNav(link.view)}
+                onClick={() => handleNav(link.route)}
                 style={{ transitionDelay: `${i * 100 + 200}ms` }}
                 className={`font-serif text-5xl md:text-7xl text-paper hover:text-accent transition-all duration-300 transform ${menuOpen ? "translate-y-0 opacity-100" : "translate-y-8 opacity-0"}`}
               >
@@ -528,53 +1213,127 @@ function App() {
         onClick={() => setMenuOpen(!menuOpen)}
       />
 
+      {isPublic && (
+        <SearchButton onClick={() => setSearchOpen(true)} visible={!menuOpen} />
+      )}
+      {searchOpen && isPublic && (
+        <SearchOverlay
+          items={publicItems}
+          types={contentTypes}
+          onItemClick={handleSearchResultClick}
+          onClose={() => setSearchOpen(false)}
+        />
+      )}
+
       <main className="transition-opacity duration-500">
-        {selectedItem ? (
-          <DetailView item={selectedItem} onBack={handleBack} />
-        ) : (
-          <>
-            {currentView === "HOME" && (
-              <HomeView
-                items={items}
-                siteTitle={settings.siteTitle}
-                siteDescription={settings.siteDescription}
-                onItemClick={handleItemClick}
-              />
-            )}
-            {currentView === ContentType.STORY && (
-              <FilteredListView
-                type={ContentType.STORY}
-                items={items.filter((i) => i.type === ContentType.STORY)}
-                onItemClick={handleItemClick}
-              />
-            )}
-            {currentView === ContentType.POEM && (
-              <FilteredListView
-                type={ContentType.POEM}
-                items={items.filter((i) => i.type === ContentType.POEM)}
-                onItemClick={handleItemClick}
-              />
-            )}
-            {currentView === ContentType.QUOTE && (
-              <FilteredListView
-                type={ContentType.QUOTE}
-                items={items.filter((i) => i.type === ContentType.QUOTE)}
-                onItemClick={handleItemClick}
-              />
-            )}
-            {currentView === "LOGIN" && <Login onLogin={handleLoginSubmit} />}
-            {currentView === "CMS" && isAuthenticated && (
-              <CMS
-                items={items}
-                settings={settings}
-                isFirebaseConfigured={isFirebaseConfigured}
-                onSaveItem={saveItem}
-                onDeleteItem={deleteItem}
-                onSaveSettings={saveSettings}
-                onLogout={handleLogout}
-              />
-            )}
-          </>
+        {route.name === "piece" &&
+          (selectedItem ? (
+            <DetailView
+              item={selectedItem}
+              type={getTypeDefinition(contentTypes, selectedItem.type)}
+              series={seriesPositions(collections, selectedItem, publicItems)}
+              onBack={handleBack}
+              onTagClick={handleTagClick}
+              onItemClick={handleItemClick}
+              onCollectionClick={handleCollectionClick}
+              onLinkClick={handleLinkClick}
+            />
+          ) : (
+            <NotFoundView onHome={() => navigate({ name: "home" })} />
+          ))}
+        {route.name === "home" && (
+          <HomeView
+            items={publicItems}
+            types={contentTypes}
+            siteTitle={settings.siteTitle}
+            siteDescription={settings.siteDescription}
+            onItemClick={handleItemClick}
+            onTagClick={handleTagClick}
+          />
+        )}
+        {route.name === "list" &&
+          (listType ? (
+            <FilteredListView
+              key={listType.id}
+              eyebrow="Collection"
+              heading={listType.plural}
+              items={publicItems.filter((i) => i.type === listType.id)}
+              types={contentTypes}
+              onItemClick={handleItemClick}
+            />
+          ) : (
+            <NotFoundView onHome={() => navigate({ name: "home" })} />
+          ))}
+        {route.name === "collections" && (
+          <CollectionsView
+            collections={publicCollections}
+            onCollectionClick={handleCollectionClick}
+          />
+        )}
+        {route.name === "collection" &&
+          (selectedCollection ? (
+            <CollectionView
+              key={selectedCollection.id}
+              collection={selectedCollection}
+              members={collectionMembers(selectedCollection, publicItems)}
+              onItemClick={handleItemClick}
+            />
+          ) : (
+            <NotFoundView onHome={() => navigate({ name: "home" })} />
+          ))}
+        {route.name === "archive" && (
+          <ArchiveView items={publicItems} onItemClick={handleItemClick} />
+        )}
+        {route.name === "tags" && (
+          <TagsView tags={tags} onTagClick={handleTagClick} />
+        )}
+        {route.name === "tag" &&
+          (selectedTag ? (
+            <FilteredListView
+              key={selectedTag.slug}
+              eyebrow={`Theme · ${selectedTag.count} ${selectedTag.count === 1 ? "piece" : "pieces"}`}
+              heading={selectedTag.tag}
+              items={publicItems.filter((i) => hasTag(i, selectedTag.slug))}
+              types={contentTypes}
+              onItemClick={handleItemClick}
+            />
+          ) : (
+            <NotFoundView onHome={() => navigate({ name: "home" })} />
+          ))}
+        {route.name === "notFound" && (
+          <NotFoundView onHome={() => navigate({ name: "home" })} />
+        )}
+        {route.name === "cms" && !isAuthenticated && (
+          <Login onLogin={handleLoginSubmit} authError={authError} />
+        )}
+        {route.name === "cms" && isAuthenticated && role && (
+          <CMS
+            items={items}
+            collections={collections}
+            settings={settings}
+            isFirebaseConfigured={isFirebaseConfigured}
+            storeError={error}
+            role={role}
+            currentUid={user?.uid ?? null}
+            can={can}
+            activeTab={route.tab}
+            onTabChange={handleTabChange}
+            onSaveItem={handleSaveItem}
+            onSaveItems={saveItems}
+            onDeleteItem={deleteItem}
+            onDeleteItems={deleteItems}
+            onImportBundle={importBundle}
+            onRestoreItem={restoreItem}
+            onPurgeItem={purgeItem}
+            onPurgeExpired={purgeExpired}
+            onSaveSettings={saveSettings}
+            onSaveMeta={saveMeta}
+            onSaveCollection={saveCollection}
+            onDeleteCollection={deleteCollection}
+            onLoadRevisions={listRevisions}
+            renderPreview={renderPreview}
+            onLogout={handleLogout}
+          />
         )}
       </main>
     </div>
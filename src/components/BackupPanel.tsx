@@ -0,0 +1,218 @@
+import { useState } from 'react';
+import type { ChangeEvent } from 'react';
+import { BundleError, bundleToZip, createBundle, pendingChanges, planImport, readBundleFile } from '@/lib/bundle';
+import type { ImportChange, ImportPlan, ImportResult } from '@/lib/bundle';
+import { downloadFile, downloadJSON } from '@/lib/download';
+import { plainExcerpt } from '@/lib/markdown';
+import { slugify } from '@/lib/slug';
+import { isTrashed } from '@/lib/trash';
+import ProgressBar from './ProgressBar';
+import type { Collection, ContentItem, SiteSettings } from '@/types';
+
+interface BackupPanelProps {
+  // Every piece, trashed ones included
+  items: ContentItem[];
+  collections: Collection[];
+  settings: SiteSettings;
+  canImport: boolean;
+  onImport: (plan: ImportPlan, onProgress?: (done: number) => void) => Promise<ImportResult>;
+}
+
+interface PendingImport {
+  fileName: string;
+  exportedAt: string;
+  plan: ImportPlan;
+}
+
+const CHANGE_LABELS: Record<ImportChange<unknown>['type'], string> = {
+  create: 'New',
+  update: 'Update',
+  unchanged: 'Unchanged',
+  conflict: 'Conflict'
+};
+
+const CHANGE_CLASSES: Record<ImportChange<unknown>['type'], string> = {
+  create: 'bg-emerald-100 text-emerald-700',
+  update: 'bg-sky-100 text-sky-700',
+  unchanged: 'bg-gray-100 text-gray-700',
+  conflict: 'bg-amber-100 text-amber-700'
+};
+
+const BUTTON_CLASS =
+  'font-sans text-xs font-bold uppercase tracking-widest border border-gray-300 px-6 py-3 hover:border-black transition-all disabled:opacity-40';
+
+function countChanges<T>(changes: ImportChange<T>[]): string {
+  const counts = (Object.keys(CHANGE_LABELS) as ImportChange<T>['type'][])
+    .map((type) => [type, changes.filter((change) => change.type === type).length] as const)
+    .filter(([, count]) => count > 0);
+  return counts.map(([type, count]) => `${count} ${CHANGE_LABELS[type].toLowerCase()}`).join(', ') || 'none';
+}
+
+const itemLabel = (item: ContentItem) => item.title || plainExcerpt(item.body, 40);
+
+/**
+ * Exports the archive as a bundle and imports one back. An import is always
+ * previewed first: nothing is written until the author confirms the plan.
+ */
+export default function BackupPanel({ items, collections, settings, canImport, onImport }: BackupPanelProps) {
+  const [pending, setPending] = useState<PendingImport | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const exportBundle = () => createBundle({
+    items,
+    settings,
+    meta: { contentOrder: items.filter((i) => !isTrashed(i)).map((i) => i.id) },
+    collections
+  });
+  const fileName = () => `${slugify(settings.siteTitle) || 'content'}-${new Date().toISOString().slice(0, 10)}`;
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setErrorMessage(null);
+    setNotice(null);
+    try {
+      const bundle = await readBundleFile(file);
+      setPending({
+        fileName: file.name,
+        exportedAt: bundle.exportedAt,
+        plan: planImport(bundle, { items, collections, settings })
+      });
+    } catch (err) {
+      console.error('Bundle read error:', err);
+      setErrorMessage(err instanceof BundleError ? err.message : `Could not read ${file.name}.`);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!pending) return;
+    const total = pendingChanges(pending.plan.items).length;
+    setProgress({ done: 0, total });
+    const result = await onImport(pending.plan, (done) => setProgress({ done, total }));
+    setProgress(null);
+
+    const failed = pendingChanges(pending.plan.items).filter((item) => result.failed.includes(item.id));
+    if (failed.length > 0 || result.failedParts.length > 0) {
+      const parts = [
+        failed.length ? `${failed.length} of ${total} pieces (${failed.slice(0, 5).map(itemLabel).join(', ')})` : '',
+        ...result.failedParts
+      ].filter(Boolean);
+      setErrorMessage(`Imported with errors. Not saved: ${parts.join('; ')}.`);
+    } else {
+      setNotice(`Imported ${result.saved.length} ${result.saved.length === 1 ? 'piece' : 'pieces'} from ${pending.fileName}.`);
+    }
+    setPending(null);
+  };
+
+  const plan = pending?.plan;
+  const visibleChanges = plan ? plan.items.filter((change) => change.type !== 'unchanged') : [];
+  const hasWrites = plan
+    ? pendingChanges(plan.items).length > 0 || pendingChanges(plan.collections).length > 0
+      || Boolean(plan.settings) || Boolean(plan.contentOrder)
+    : false;
+
+  return (
+    <div className="mt-16 pt-8 border-t border-gray-200">
+      <label className="block text-[10px] uppercase tracking-widest text-muted mb-2">
+        Backup
+      </label>
+      <p className="text-sm text-muted mb-6">
+        Download every piece, series and setting as a JSON bundle, or as Markdown files with front matter in a ZIP.
+        Either file can be imported here later. Revision history is not included.
+      </p>
+
+      {errorMessage && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 text-red-800 text-sm">
+          {errorMessage}
+        </div>
+      )}
+      {notice && (
+        <div className="mb-6 p-4 bg-green-50 border border-green-200 text-green-800 text-sm">
+          {notice}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-3">
+        <button type="button" onClick={() => downloadJSON(`${fileName()}.json`, exportBundle())} className={BUTTON_CLASS}>
+          Export JSON
+        </button>
+        <button
+          type="button"
+          onClick={() => downloadFile(`${fileName()}.zip`, bundleToZip(exportBundle()), 'application/zip')}
+          className={BUTTON_CLASS}
+        >
+          Export Markdown (ZIP)
+        </button>
+        {canImport && (
+          <label className={`${BUTTON_CLASS} cursor-pointer ${pending || progress ? 'opacity-40 pointer-events-none' : ''}`}>
+            Import...
+            <input type="file" accept=".json,.zip,application/json,application/zip" onChange={handleFile} className="sr-only" />
+          </label>
+        )}
+      </div>
+
+      {pending && plan && (
+        <div className="mt-8 p-6 bg-white border border-black space-y-6">
+          <div>
+            <h3 className="font-serif text-2xl mb-1">Import preview</h3>
+            <p className="text-[10px] uppercase tracking-widest text-muted">
+              {pending.fileName} • exported {new Date(pending.exportedAt).toLocaleString()}
+            </p>
+          </div>
+
+          <ul className="text-sm space-y-1">
+            <li>Pieces: {countChanges(plan.items)}</li>
+            <li>Series: {countChanges(plan.collections)}</li>
+            <li>Site settings: {plan.settings ? 'will be replaced' : 'unchanged'}</li>
+            <li>Content order: {plan.contentOrder ? 'will change' : 'unchanged'}</li>
+          </ul>
+
+          {visibleChanges.length > 0 && (
+            <div className="max-h-80 overflow-y-auto space-y-2">
+              {visibleChanges.map((change) => (
+                <div key={change.value.id} className="flex items-center gap-4 p-3 border border-gray-200">
+                  <span className={`text-[10px] font-bold uppercase tracking-tighter px-2 py-1 ${CHANGE_CLASSES[change.type]}`}>
+                    {CHANGE_LABELS[change.type]}
+                  </span>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-serif truncate">{itemLabel(change.value)}</p>
+                    {change.type === 'conflict' && (
+                      <p className="text-[10px] text-amber-700 uppercase tracking-widest">{change.reason} • skipped</p>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {plan.collections.filter((change) => change.type === 'conflict').map((change) => (
+            <p key={change.value.id} className="text-[10px] text-amber-700 uppercase tracking-widest">
+              Series "{change.value.title}": {change.type === 'conflict' && change.reason} • skipped
+            </p>
+          ))}
+
+          {progress ? (
+            <ProgressBar label="Importing" done={progress.done} total={progress.total} />
+          ) : (
+            <div className="flex space-x-4">
+              <button type="button" onClick={() => setPending(null)} className={`flex-1 ${BUTTON_CLASS}`}>
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleImport}
+                disabled={!hasWrites}
+                className="flex-1 font-sans text-xs font-bold uppercase tracking-widest bg-black text-white px-6 py-3 hover:bg-gray-800 transition-all disabled:opacity-40"
+              >
+                {hasWrites ? 'Import' : 'Nothing to import'}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+import { useState } from 'react';
+import { STATUS_LABELS } from '@/lib/status';
+import type { BulkEdit } from '@/lib/bulk';
+import ProgressBar from './ProgressBar';
+import type { TagCount } from '@/lib/tags';
+import type { ContentStatusValue, ContentTypeDefinition } from '@/types';
+
+export interface BulkProgress {
+  label: string;
+  done: number;
+  total: number;
+}
+
+interface BulkActionBarProps {
+  count: number;
+  contentTypes: ContentTypeDefinition[];
+  statusOptions: ContentStatusValue[];
+  // Tags carried by at least one selected piece
+  tags: TagCount[];
+  // Number of pieces in site order, for the position field
+  siteLength: number;
+  canEdit: boolean;
+  canDelete: boolean;
+  canReorder: boolean;
+  progress: BulkProgress | null;
+  onEdit: (edit: BulkEdit) => void;
+  onMove: (index: number) => void;
+  onExport: () => void;
+  onTrash: () => void;
+  onClear: () => void;
+}
+
+const CONTROL_CLASS =
+  'px-3 py-2 text-[10px] font-bold uppercase tracking-widest border border-gray-200 bg-white outline-none focus:border-black disabled:opacity-40';
+
+// Actions on the pieces selected in the CMS list; selects apply on change
+export default function BulkActionBar({
+  count,
+  contentTypes,
+  statusOptions,
+  tags,
+  siteLength,
+  canEdit,
+  canDelete,
+  canReorder,
+  progress,
+  onEdit,
+  onMove,
+  onExport,
+  onTrash,
+  onClear
+}: BulkActionBarProps) {
+  const [newTag, setNewTag] = useState('');
+  const [position, setPosition] = useState('1');
+  const busy = progress !== null;
+
+  const handleAddTag = () => {
+    if (!newTag.trim()) return;
+    onEdit({ type: 'addTag', tag: newTag });
+    setNewTag('');
+  };
+
+  return (
+    <div className="sticky top-4 z-10 mb-6 p-4 bg-white border border-black shadow-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-[10px] font-bold uppercase tracking-widest mr-2">{count} selected</span>
+        {canEdit && (
+          <>
+            <select
+              value=""
+              disabled={busy}
+              onChange={(e) => onEdit({ type: 'setType', contentType: e.target.value })}
+              aria-label="Change type"
+              className={CONTROL_CLASS}
+            >
+              <option value="" disabled>Change type...</option>
+              {contentTypes.map((type) => (
+                <option key={type.id} value={type.id}>{type.label}</option>
+              ))}
+            </select>
+            <select
+              value=""
+              disabled={busy}
+              onChange={(e) => onEdit({ type: 'setStatus', status: e.target.value as ContentStatusValue })}
+              aria-label="Change status"
+              className={CONTROL_CLASS}
+            >
+              <option value="" disabled>Change status...</option>
+              {statusOptions.map((status) => (
+                <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+              ))}
+            </select>
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleAddTag();
+              }}
+              className="flex"
+            >
+              <input
+                value={newTag}
+                disabled={busy}
+                onChange={(e) => setNewTag(e.target.value)}
+                placeholder="Tag"
+                aria-label="Tag to add"
+                className="w-28 px-3 py-2 text-xs border border-gray-200 border-r-0 bg-white outline-none focus:border-black"
+              />
+              <button type="submit" disabled={busy || !newTag.trim()} className={CONTROL_CLASS}>
+                + Tag
+              </button>
+            </form>
+            {tags.length > 0 && (
+              <select
+                value=""
+                disabled={busy}
+                onChange={(e) => onEdit({ type: 'removeTag', tag: e.target.value })}
+                aria-label="Remove tag"
+                className={CONTROL_CLASS}
+              >
+                <option value="" disabled>Remove tag...</option>
+                {tags.map(({ tag, slug, count: tagged }) => (
+                  <option key={slug} value={tag}>#{tag} ({tagged})</option>
+                ))}
+              </select>
+            )}
+          </>
+        )}
+        {canReorder && (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              onMove(Number(position) - 1);
+            }}
+            className="flex"
+          >
+            <input
+              type="number"
+              min={1}
+              max={siteLength}
+              value={position}
+              disabled={busy}
+              onChange={(e) => setPosition(e.target.value)}
+              aria-label="Site position"
+              className="w-16 px-3 py-2 text-xs border border-gray-200 border-r-0 bg-white outline-none focus:border-black"
+            />
+            <button type="submit" disabled={busy || !position} className={CONTROL_CLASS}>
+              Move to position
+            </button>
+          </form>
+        )}
+        <button type="button" onClick={onExport} disabled={busy} className={CONTROL_CLASS}>
+          Export
+        </button>
+        {canDelete && (
+          <button
+            type="button"
+            onClick={onTrash}
+            disabled={busy}
+            className={`${CONTROL_CLASS} text-red-500 hover:border-red-500`}
+          >
+            Trash
+          </button>
+        )}
+        <div className="flex-1" />
+        <button
+          type="button"
+          onClick={onClear}
+          disabled={busy}
+          className="text-[10px] uppercase font-bold tracking-widest text-muted hover:text-dark px-3 py-2"
+        >
+          Clear
+        </button>
+      </div>
+      {progress && (
+        <div className="mt-3">
+          <ProgressBar {...progress} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,104 +1,275 @@
-import { useState, useEffect } from 'react';
-import { ContentType } from '@/types';
-import type { ContentItem, SiteSettings } from '@/types';
+import { useState, useEffect, useMemo } from 'react';
+import type { ReactNode } from 'react';
+import { ContentStatus, TypeRenderer } from '@/types';
+import type { ContentItem, ContentMeta, ContentStatusValue, SiteSettings, RoleValue, Revision, Collection } from '@/types';
+import { moveId } from '@/lib/store';
+import type { CmsTab } from '@/lib/routes';
+import { slugify, slugOf, slugSource, uniqueSlug, withSlug } from '@/lib/slug';
+import { ROLE_LABELS } from '@/lib/permissions';
+import {
+  STATUSES,
+  STATUS_LABELS,
+  UNPUBLISHED_STATUSES,
+  getStatus,
+  toDateTimeInput,
+  fromDateTimeInput
+} from '@/lib/status';
+import type { Permission } from '@/lib/permissions';
+import UsersTab from './UsersTab';
+import RevisionHistory from './RevisionHistory';
+import TrashTab from './TrashTab';
+import TagInput from './TagInput';
+import CollectionsTab from './CollectionsTab';
+import { collectTags, hasTag } from '@/lib/tags';
+import { applyBulkEdit, moveBlock } from '@/lib/bulk';
+import { downloadJSON } from '@/lib/download';
+import { createBundle } from '@/lib/bundle';
+import type { ImportPlan, ImportResult } from '@/lib/bundle';
+import BackupPanel from './BackupPanel';
+import type { BulkEdit, BulkResult } from '@/lib/bulk';
+import BulkActionBar from './BulkActionBar';
+import type { BulkProgress } from './BulkActionBar';
+import { buildSearchIndex, searchItems } from '@/lib/search';
+import ContentTypesEditor from './ContentTypesEditor';
+import DatePicker from './DatePicker';
+import Markdown, { Verse } from './Markdown';
+import PreviewPane from './PreviewPane';
+import CommandPalette from './CommandPalette';
+import type { PaletteCommand } from './CommandPalette';
+import { Kbd } from '@/components/ui/kbd';
+import { MOD_LABEL, isLayerOpen, isModKey } from '@/lib/shortcuts';
+import type { PreviewView } from './PreviewPane';
+import { plainExcerpt, stripMarkup } from '@/lib/markdown';
+import { displayDate, formatDate, formatTime, newestFirstByDate } from '@/lib/dates';
+import { NEW_DRAFT_ID, clearDraft, differsFrom, readDraft, writeDraft } from '@/lib/drafts';
+import type { LocalDraft } from '@/lib/drafts';
+import { useAutosave } from '@/hooks/useAutosave';
+import { useLeaveGuard } from '@/hooks/useRoute';
+import { BADGE_CLASSES, countByType, getContentTypes, getTypeDefinition, validateContentTypes } from '@/lib/contentTypes';
+import { DEFAULT_TRASH_RETENTION_DAYS, isTrashed } from '@/lib/trash';
+
+const LEAVE_MESSAGE = 'You have unsaved changes. Leave without saving?';
+
+const TABS: CmsTab[] = ['content', 'collections', 'settings', 'trash', 'users'];
+
+const TAB_LABELS: Record<CmsTab, string> = {
+  content: 'Content',
+  collections: 'Series',
+  settings: 'Site Settings',
+  trash: 'Trash',
+  users: 'Users'
+};
+
+// One stat card per content type, in as many columns as fit; Tailwind needs
+// the class names spelled out
+const STAT_COLUMNS = [
+  'grid-cols-1',
+  'grid-cols-1',
+  'grid-cols-2',
+  'grid-cols-3',
+  'grid-cols-2 md:grid-cols-4',
+  'grid-cols-2 md:grid-cols-5',
+  'grid-cols-3 md:grid-cols-6'
+];
+
+// The ui Kbd relies on theme colours this site does not define
+const KBD_CLASS = 'bg-gray-100 text-gray-600 rounded-none';
+
+// The form a new piece starts from
+const emptyForm = (type: string): Partial<ContentItem> => ({
+  type,
+  title: '',
+  body: '',
+  excerpt: '',
+  status: ContentStatus.DRAFT
+});
 
 interface CMSProps {
   items: ContentItem[];
+  collections: Collection[];
   settings: SiteSettings;
   isFirebaseConfigured: boolean;
+  storeError: string | null;
+  role: RoleValue;
+  currentUid: string | null;
+  can: (permission: Permission) => boolean;
+  activeTab: CmsTab;
+  onTabChange: (tab: CmsTab) => void;
   onSaveItem: (item: ContentItem) => Promise<boolean>;
+  onSaveItems: (items: ContentItem[], onProgress?: (done: number) => void) => Promise<BulkResult>;
   onDeleteItem: (id: string) => Promise<boolean>;
+  onDeleteItems: (ids: string[], onProgress?: (done: number) => void) => Promise<BulkResult>;
+  onImportBundle: (plan: ImportPlan, onProgress?: (done: number) => void) => Promise<ImportResult>;
+  onRestoreItem: (id: string) => Promise<boolean>;
+  onPurgeItem: (id: string) => Promise<boolean>;
+  onPurgeExpired: (retentionDays: number) => Promise<number>;
   onSaveSettings: (settings: SiteSettings) => Promise<boolean>;
+  onSaveMeta: (meta: ContentMeta) => Promise<boolean>;
+  onSaveCollection: (collection: Collection) => Promise<boolean>;
+  onDeleteCollection: (id: string) => Promise<boolean>;
+  onLoadRevisions: (itemId: string) => Promise<Revision[]>;
+  // Public views, used to preview unsaved pieces
+  renderPreview: (item: ContentItem, view: PreviewView) => ReactNode;
   onLogout: () => void;
 }
 
 export default function CMS({ 
   items, 
+  collections,
   settings, 
   isFirebaseConfigured,
+  storeError,
+  role,
+  currentUid,
+  can,
+  activeTab,
+  onTabChange,
   onSaveItem, 
+  onSaveItems,
   onDeleteItem, 
+  onDeleteItems,
+  onImportBundle,
+  onRestoreItem,
+  onPurgeItem,
+  onPurgeExpired,
   onSaveSettings,
+  onSaveMeta,
+  onSaveCollection,
+  onDeleteCollection,
+  onLoadRevisions,
+  renderPreview,
   onLogout 
 }: CMSProps) {
-  const [activeTab, setActiveTab] = useState<'content' | 'settings'>('content');
   const [editingItem, setEditingItem] = useState<ContentItem | null>(null);
   const [isCreating, setIsCreating] = useState(false);
+  // Type picked for a new piece, when it was not the default
+  const [createType, setCreateType] = useState<string | null>(null);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [recoverableDraft, setRecoverableDraft] = useState<LocalDraft | null>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState<string | null>(null);
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<ContentStatusValue | 'all'>('all');
+  const [sortOrder, setSortOrder] = useState<'manual' | 'newest' | 'oldest'>('manual');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [typeFilter, setTypeFilter] = useState('all');
+  const [tagFilter, setTagFilter] = useState('all');
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [dropId, setDropId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+  const [bulkProgress, setBulkProgress] = useState<BulkProgress | null>(null);
+  const [bulkNotice, setBulkNotice] = useState<string | null>(null);
+  const [showBulkDeleteConfirm, setShowBulkDeleteConfirm] = useState(false);
+
+  const contentTypes = getContentTypes(settings);
+  const defaultType = contentTypes[0].id;
 
   // Form state
-  const [formData, setFormData] = useState<Partial<ContentItem>>({
-    type: ContentType.STORY,
-    title: '',
-    body: '',
-    excerpt: '',
-    date: ''
-  });
+  const newPieceType = createType ?? defaultType;
+  const [formData, setFormData] = useState<Partial<ContentItem>>(() => emptyForm(newPieceType));
 
   // Settings form state
   const [settingsForm, setSettingsForm] = useState<SiteSettings>(settings);
 
+  const searchIndex = useMemo(() => buildSearchIndex(items.filter(i => !isTrashed(i))), [items]);
+
   // Reset form when editing item changes
   useEffect(() => {
     if (editingItem) {
       setFormData(editingItem);
     } else if (isCreating) {
-      setFormData({
-        type: ContentType.STORY,
-        title: '',
-        body: '',
-        excerpt: '',
-        date: new Date().toLocaleDateString('en-US', { 
-          year: 'numeric', 
-          month: 'short', 
-          day: 'numeric' 
-        })
-      });
+      setFormData(emptyForm(newPieceType));
     }
-  }, [editingItem, isCreating]);
+  }, [editingItem, isCreating, newPieceType]);
+
+  // In-progress edits are autosaved locally until the piece is saved
+  const draftId = editingItem ? editingItem.id : isCreating ? NEW_DRAFT_ID : null;
+  const baseForm = editingItem ?? emptyForm(newPieceType);
+  const hasUnsavedChanges = draftId !== null
+    && saveStatus !== 'saved'
+    && JSON.stringify(formData) !== JSON.stringify(baseForm);
+  // A found draft is left untouched until the author restores or discards it
+  const lastAutosavedAt = useAutosave(
+    draftId,
+    formData,
+    hasUnsavedChanges && saveStatus !== 'saving' && !recoverableDraft
+  );
+  useLeaveGuard(hasUnsavedChanges ? LEAVE_MESSAGE : null);
+
+  // Purge pieces that outlived the trash retention period
+  const retentionDays = settings.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS;
+  const canDelete = can('content.delete');
+  useEffect(() => {
+    if (canDelete) onPurgeExpired(retentionDays);
+  }, [canDelete, retentionDays, onPurgeExpired]);
 
   // Update settings form when settings prop changes
   useEffect(() => {
     setSettingsForm(settings);
   }, [settings]);
 
+  // New pieces follow their title until the slug is edited by hand
+  const autoSlug = slugify(slugSource({
+    title: formData.title,
+    body: formData.body || '',
+    type: formData.type || defaultType
+  }));
+  const slugValue = formData.slug ?? autoSlug;
+
+  // The piece as it would be saved from the current form
+  const buildItem = (id: string): ContentItem => withSlug({
+    id,
+    type: formData.type || defaultType,
+    title: formData.title,
+    body: formData.body || '',
+    excerpt: formData.excerpt ? stripMarkup(formData.excerpt) || undefined : undefined,
+    createdAt: formData.createdAt,
+    publishedAt: formData.publishedAt,
+    tags: formData.tags?.length ? formData.tags : undefined,
+    lineNumbers: formData.lineNumbers || undefined,
+    // Pieces from before the workflow have no status and count as published
+    status: getStatus(formData),
+    publishAt: formData.publishAt
+  }, editingItem ?? undefined, uniqueSlug(slugify(slugValue), items, id));
+
   const handleSaveItem = async () => {
     if (!formData.body) return;
     
     setSaveStatus('saving');
     setErrorMessage(null);
+    // Keep the very latest edits if the save fails
+    if (draftId && !recoverableDraft) writeDraft(draftId, formData, new Date());
     
-    const newItem: ContentItem = {
-      id: editingItem?.id || Date.now().toString(),
-      type: formData.type || ContentType.STORY,
-      title: formData.title,
-      body: formData.body,
-      excerpt: formData.excerpt,
-      date: formData.date
-    };
-
+    const newItem = buildItem(editingItem?.id || crypto.randomUUID());
     const success = await onSaveItem(newItem);
     
     if (success) {
+      if (draftId) clearDraft(draftId);
       setSaveStatus('saved');
       setTimeout(() => {
         setSaveStatus('idle');
         setEditingItem(null);
         setIsCreating(false);
+        setIsPreviewing(false);
       }, 1000);
     } else {
       setSaveStatus('error');
       setErrorMessage(isFirebaseConfigured 
         ? 'Failed to save to Firebase. Check your configuration and rules.' 
-        : 'Saved locally. Configure Firebase to persist changes.'
+        : 'Failed to save to browser storage.'
       );
       setTimeout(() => setSaveStatus('idle'), 2000);
     }
   };
 
   const handleSaveSettings = async () => {
+    const typesError = validateContentTypes(getContentTypes(settingsForm));
+    if (typesError) {
+      setErrorMessage(typesError);
+      return;
+    }
+
     setSaveStatus('saving');
     setErrorMessage(null);
     
@@ -111,71 +282,252 @@ export default function CMS({
       setSaveStatus('error');
       setErrorMessage(isFirebaseConfigured 
         ? 'Failed to save settings to Firebase.' 
-        : 'Settings saved locally.'
+        : 'Failed to save settings to browser storage.'
       );
       setTimeout(() => setSaveStatus('idle'), 2000);
     }
   };
 
+  // Saves the revision's text over the current piece, recording a new revision
+  const handleRestoreRevision = async (revision: Revision) => {
+    if (!editingItem) return;
+    setErrorMessage(null);
+    const restored: ContentItem = {
+      ...editingItem,
+      title: revision.title,
+      excerpt: revision.excerpt,
+      body: revision.body
+    };
+    if (await onSaveItem(restored)) {
+      setEditingItem(restored);
+    } else {
+      setErrorMessage('Failed to restore this revision.');
+    }
+  };
+
   const handleDelete = async (id: string) => {
     const success = await onDeleteItem(id);
     setShowDeleteConfirm(null);
     
     if (!success) {
-      setErrorMessage('Failed to delete item. Please try again.');
+      setErrorMessage('Failed to move item to the trash. Please try again.');
       setTimeout(() => setErrorMessage(null), 3000);
     }
   };
 
+  // Persists the whole archive order in a single meta write
+  const handleMove = async (id: string, toIndex: number) => {
+    const ids = items.filter(i => !isTrashed(i)).map(i => i.id);
+    if (ids.indexOf(id) === toIndex) return;
+    setErrorMessage(null);
+    if (!(await onSaveMeta({ contentOrder: moveId(ids, id, toIndex) }))) {
+      setErrorMessage('Failed to save the new order. Please try again.');
+    }
+  };
+
+  const handleDrop = (targetIndex: number) => {
+    if (dragId) handleMove(dragId, targetIndex);
+    setDragId(null);
+    setDropId(null);
+  };
+
+  // Alt+Arrow keys move the focused row; Alt+Home sends it to the top
+  const handleRowKeyDown = (e: React.KeyboardEvent, id: string, index: number) => {
+    if (!e.altKey) return;
+    const target = e.key === 'ArrowUp' ? index - 1 : e.key === 'ArrowDown' ? index + 1 : e.key === 'Home' ? 0 : null;
+    if (target === null) return;
+    e.preventDefault();
+    handleMove(id, target);
+  };
+
+  const findDraft = (id: string, saved: Partial<ContentItem>) => {
+    const draft = readDraft(id);
+    setRecoverableDraft(draft && differsFrom(draft, saved) ? draft : null);
+  };
+
   const handleEdit = (item: ContentItem) => {
     setEditingItem(item);
     setIsCreating(false);
-    setActiveTab('content');
+    setIsPreviewing(false);
+    findDraft(item.id, item);
+    onTabChange('content');
     setErrorMessage(null);
   };
 
-  const handleCreateNew = () => {
+  const handleCreateNew = (type = defaultType) => {
     setEditingItem(null);
     setIsCreating(true);
-    setActiveTab('content');
+    setCreateType(type);
+    setIsPreviewing(false);
+    findDraft(NEW_DRAFT_ID, emptyForm(type));
+    onTabChange('content');
     setErrorMessage(null);
   };
 
-  const handleCancelEdit = () => {
+  // False when the author chose to keep editing
+  const closeEditor = (): boolean => {
+    if (hasUnsavedChanges) {
+      if (!window.confirm(LEAVE_MESSAGE)) return false;
+      if (draftId) clearDraft(draftId);
+    }
+    setRecoverableDraft(null);
     setEditingItem(null);
     setIsCreating(false);
+    setIsPreviewing(false);
     setErrorMessage(null);
+    return true;
   };
 
-  const getTypeColor = (type: string) => {
-    switch (type) {
-      case ContentType.STORY: return 'bg-blue-100 text-blue-700';
-      case ContentType.POEM: return 'bg-purple-100 text-purple-700';
-      case ContentType.QUOTE: return 'bg-green-100 text-green-700';
-      default: return 'bg-gray-100 text-gray-700';
+  const handleCancelEdit = () => {
+    closeEditor();
+  };
+
+  const getStatusColor = (status: ContentStatusValue) => {
+    switch (status) {
+      case ContentStatus.DRAFT: return 'bg-gray-100 text-gray-700';
+      case ContentStatus.IN_REVIEW: return 'bg-amber-100 text-amber-700';
+      case ContentStatus.SCHEDULED: return 'bg-sky-100 text-sky-700';
+      case ContentStatus.PUBLISHED: return 'bg-emerald-100 text-emerald-700';
+      case ContentStatus.ARCHIVED: return 'bg-stone-200 text-stone-600';
     }
   };
 
+  const getTypeColor = (type: string) => BADGE_CLASSES[getTypeDefinition(contentTypes, type).badge];
+
+  // Without the publish permission only unpublished pieces can be touched,
+  // and only unpublished statuses can be chosen
+  const canPublish = can('content.publish');
+  const canEditItem = can(isCreating ? 'content.create' : 'content.edit')
+    && (canPublish || isCreating || UNPUBLISHED_STATUSES.includes(getStatus(editingItem ?? {})));
+  const statusOptions = canPublish ? STATUSES : UNPUBLISHED_STATUSES;
+  const visibleTabs = TABS.filter((tab) => tab !== 'users' || can('users.manage'));
+  // Pieces of a type that was never registered keep it selectable
+  const formType = getTypeDefinition(contentTypes, formData.type || defaultType);
+  const typeOptions = contentTypes.some(t => t.id === formType.id) ? contentTypes : [...contentTypes, formType];
+  const formStatus = getStatus(formData);
+  const showPublishAt = formStatus === ContentStatus.SCHEDULED || formStatus === ContentStatus.PUBLISHED;
+  const isEditorOpen = Boolean(editingItem || isCreating);
+
+  // Leaving an open editor goes through the unsaved-changes check first
+  const leaveEditorThen = (action: () => void) => () => {
+    if (isEditorOpen && !closeEditor()) return;
+    action();
+  };
+
+  const paletteCommands: PaletteCommand[] = [
+    ...(isEditorOpen ? [
+      ...(canEditItem ? [{ id: 'editor-save', label: 'Save', group: 'Editor', shortcut: `${MOD_LABEL} S`, run: handleSaveItem }] : []),
+      ...(formData.body ? [{
+        id: 'editor-preview',
+        label: isPreviewing ? 'Back to editing' : 'Preview',
+        group: 'Editor',
+        shortcut: `${MOD_LABEL} ⇧ P`,
+        run: () => setIsPreviewing(!isPreviewing)
+      }] : []),
+      { id: 'editor-cancel', label: 'Cancel', group: 'Editor', shortcut: 'Esc', run: handleCancelEdit }
+    ] : []),
+    ...(can('content.create') ? contentTypes.map((type) => ({
+      id: `new-${type.id}`,
+      label: `New ${type.label}`,
+      group: 'Create',
+      run: leaveEditorThen(() => handleCreateNew(type.id))
+    })) : []),
+    ...visibleTabs.map((tab) => ({
+      id: `tab-${tab}`,
+      label: `Go to ${TAB_LABELS[tab]}`,
+      group: 'Navigate',
+      run: leaveEditorThen(() => onTabChange(tab))
+    })),
+    ...items.filter(i => !isTrashed(i)).map((item) => ({
+      id: `piece-${item.id}`,
+      label: item.title || plainExcerpt(item.body, 40),
+      group: 'Pieces',
+      keywords: [getTypeDefinition(contentTypes, item.type).label, STATUS_LABELS[getStatus(item)]],
+      run: leaveEditorThen(() => handleEdit(item))
+    })),
+    ...(canDelete ? [{
+      id: 'purge-expired',
+      label: 'Empty expired trash',
+      group: 'Actions',
+      run: () => { onPurgeExpired(retentionDays); }
+    }] : []),
+    { id: 'logout', label: 'Log out', group: 'Actions', run: leaveEditorThen(onLogout) }
+  ];
+
+  // Cmd/Ctrl+K opens the palette anywhere in the CMS; in the editor Cmd/Ctrl+S
+  // saves, Cmd/Ctrl+Shift+P toggles the preview and Escape cancels
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const key = e.key.toLowerCase();
+      if (isModKey(e) && key === 'k') {
+        e.preventDefault();
+        setIsPaletteOpen((open) => !open);
+        return;
+      }
+      if (!isEditorOpen || isPaletteOpen) return;
+      if (isModKey(e) && key === 's') {
+        e.preventDefault();
+        if (canEditItem && saveStatus !== 'saving') handleSaveItem();
+      } else if (isModKey(e) && e.shiftKey && key === 'p') {
+        e.preventDefault();
+        if (formData.body) setIsPreviewing((previewing) => !previewing);
+      } else if (e.key === 'Escape' && !isLayerOpen()) {
+        handleCancelEdit();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // The list view adds the actions on its current selection
+  const renderPalette = (extraCommands: PaletteCommand[] = []) => (
+    <CommandPalette
+      open={isPaletteOpen}
+      onOpenChange={setIsPaletteOpen}
+      commands={[...extraCommands, ...paletteCommands]}
+    />
+  );
+
   // Editor View
-  if (editingItem || isCreating) {
+  if (isEditorOpen) {
     return (
       <div className="min-h-screen bg-paper pt-32 pb-32 px-6 md:px-24 max-w-5xl mx-auto animate-fade-in">
+        {renderPalette()}
         <header className="mb-12 flex items-center justify-between">
           <div>
             <span className="font-sans text-xs tracking-widest text-muted uppercase">
               {isCreating ? 'Create New' : 'Edit Content'}
+              {hasUnsavedChanges && (
+                <span className="normal-case tracking-normal ml-3">
+                  {lastAutosavedAt ? `• Autosaved at ${formatTime(lastAutosavedAt)}` : '• Unsaved changes'}
+                </span>
+              )}
             </span>
             <h1 className="font-serif text-4xl md:text-5xl text-dark tracking-tight mt-2">
               {isCreating ? 'New Piece' : (formData.title || 'Untitled')}
             </h1>
+            <p className="hidden md:flex items-center gap-2 mt-3 text-[10px] text-muted">
+              <Kbd className={KBD_CLASS}>{MOD_LABEL} S</Kbd> Save
+              <Kbd className={KBD_CLASS}>Esc</Kbd> Cancel
+              <Kbd className={KBD_CLASS}>{MOD_LABEL} ⇧ P</Kbd> Preview
+              <Kbd className={KBD_CLASS}>{MOD_LABEL} K</Kbd> Commands
+            </p>
           </div>
           <div className="flex space-x-3">
+            <button
+              onClick={() => setIsPreviewing(!isPreviewing)}
+              disabled={!formData.body}
+              className="font-sans text-xs font-bold uppercase tracking-widest border border-gray-300 px-6 py-3 hover:border-black transition-all disabled:opacity-30"
+            >
+              {isPreviewing ? 'Edit' : 'Preview'}
+            </button>
             <button 
               onClick={handleCancelEdit}
               className="font-sans text-xs font-bold uppercase tracking-widest border border-gray-300 px-6 py-3 hover:border-black transition-all"
             >
               Cancel
             </button>
+            {canEditItem && (
             <button 
               onClick={handleSaveItem}
               disabled={saveStatus === 'saving'}
@@ -189,6 +541,7 @@ export default function CMS({
             >
               {saveStatus === 'saving' ? 'Saving...' : saveStatus === 'saved' ? 'Saved!' : saveStatus === 'error' ? 'Error' : 'Save'}
             </button>
+            )}
           </div>
         </header>
 
@@ -198,14 +551,52 @@ export default function CMS({
           </div>
         )}
 
+        {recoverableDraft && (
+          <div className="mb-6 p-4 bg-amber-50 border border-amber-200 text-amber-800 text-sm flex flex-wrap items-center gap-4">
+            <span className="flex-1">
+              Unsaved changes from {formatDate(recoverableDraft.savedAt)} at {formatTime(recoverableDraft.savedAt)} were found in this browser.
+              {editingItem?.updatedAt && editingItem.updatedAt > recoverableDraft.savedAt && ' The piece has been saved since then.'}
+              {' '}Autosave is paused until you choose.
+            </span>
+            <button
+              onClick={() => {
+                setFormData(recoverableDraft.form);
+                setRecoverableDraft(null);
+              }}
+              className="text-[10px] uppercase font-bold tracking-widest hover:text-black"
+            >
+              Restore
+            </button>
+            <button
+              onClick={() => {
+                if (draftId) clearDraft(draftId);
+                setRecoverableDraft(null);
+              }}
+              className="text-[10px] uppercase font-bold tracking-widest text-red-500 hover:text-red-700"
+            >
+              Discard
+            </button>
+          </div>
+        )}
+
+        {storeError && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 text-red-800 text-sm">
+            {storeError}
+          </div>
+        )}
+
         {!isFirebaseConfigured && (
           <div className="mb-6 p-4 bg-blue-50 border border-blue-200 text-blue-800 text-sm">
-            <strong>Local Mode:</strong> Changes are saved locally only. 
+            <strong>Local Mode:</strong> Changes are saved in this browser only. 
             Configure Firebase environment variables to persist changes to the cloud.
           </div>
         )}
 
-        <div className="space-y-8">
+        {isPreviewing && formData.body && (
+          <PreviewPane item={buildItem(editingItem?.id ?? 'preview')} render={renderPreview} />
+        )}
+
+        <fieldset disabled={!canEditItem} hidden={isPreviewing && !!formData.body} className="space-y-8">
           {/* Type Selection */}
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
             <div>
@@ -214,38 +605,109 @@ export default function CMS({
               </label>
               <select
                 value={formData.type}
-                onChange={(e) => setFormData({ ...formData, type: e.target.value as typeof ContentType[keyof typeof ContentType] })}
+                onChange={(e) => setFormData({ ...formData, type: e.target.value })}
                 className="w-full bg-white border border-gray-200 p-4 outline-none focus:border-black font-serif text-lg"
               >
-                <option value={ContentType.STORY}>Story</option>
-                <option value={ContentType.POEM}>Poetry</option>
-                <option value={ContentType.QUOTE}>Quote</option>
+                {typeOptions.map((type) => (
+                  <option key={type.id} value={type.id}>{type.label}</option>
+                ))}
               </select>
             </div>
             <div>
               <label className="block text-[10px] uppercase tracking-widest text-muted mb-2">
-                Date
+                Publication Date
               </label>
-              <input
-                type="text"
-                value={formData.date || ''}
-                onChange={(e) => setFormData({ ...formData, date: e.target.value })}
-                placeholder="Oct 24, 2024"
-                className="w-full bg-white border border-gray-200 p-4 outline-none focus:border-black font-serif text-lg"
+              <DatePicker
+                value={formData.publishedAt}
+                onChange={(publishedAt) => setFormData({ ...formData, publishedAt })}
+                placeholder="Set on publish"
               />
+              {editingItem?.updatedAt && (
+                <p className="text-[10px] text-muted mt-2">
+                  Created {formatDate(editingItem.createdAt)} • Updated {formatDate(editingItem.updatedAt)}
+                </p>
+              )}
             </div>
             <div>
               <label className="block text-[10px] uppercase tracking-widest text-muted mb-2">
                 Content ID
               </label>
-              <div className="p-4 bg-gray-50 border border-gray-100 text-muted font-mono text-sm">
+              <div className="p-4 bg-gray-50 border border-gray-100 text-muted font-mono text-sm truncate">
                 {editingItem?.id || 'Auto-generated'}
               </div>
             </div>
           </div>
 
+          {/* Slug */}
+          <div>
+            <label className="block text-[10px] uppercase tracking-widest text-muted mb-2">
+              URL Slug
+            </label>
+            <div className="flex">
+              <span className="p-4 bg-gray-50 border border-r-0 border-gray-200 text-muted font-mono text-sm">
+                /piece/
+              </span>
+              <input
+                type="text"
+                value={slugValue}
+                onChange={(e) => setFormData({ ...formData, slug: e.target.value })}
+                onBlur={() => setFormData({ ...formData, slug: slugify(slugValue) || undefined })}
+                placeholder={autoSlug}
+                className="flex-1 bg-white border border-gray-200 p-4 outline-none focus:border-black font-mono text-sm"
+              />
+              {formData.slug !== undefined && (
+                <button
+                  type="button"
+                  onClick={() => setFormData({ ...formData, slug: undefined })}
+                  className="px-4 border border-l-0 border-gray-200 text-[10px] uppercase font-bold tracking-widest hover:text-accent"
+                >
+                  Auto
+                </button>
+              )}
+            </div>
+            <p className="text-[10px] text-muted mt-2">
+              {editingItem?.slug && slugify(slugValue) !== editingItem.slug
+                ? `Links to /piece/${editingItem.slug} will redirect to the new address.`
+                : 'Accents are transliterated; a number is appended if another piece uses the same slug.'}
+            </p>
+          </div>
+
+          {/* Workflow */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div>
+              <label className="block text-[10px] uppercase tracking-widest text-muted mb-2">
+                Status
+              </label>
+              <select
+                value={getStatus(formData)}
+                onChange={(e) => setFormData({ ...formData, status: e.target.value as ContentStatusValue })}
+                className="w-full bg-white border border-gray-200 p-4 outline-none focus:border-black font-serif text-lg"
+              >
+                {statusOptions.map((status) => (
+                  <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+                ))}
+              </select>
+            </div>
+            {showPublishAt && (
+              <div className="md:col-span-2">
+                <label className="block text-[10px] uppercase tracking-widest text-muted mb-2">
+                  Publish At
+                </label>
+                <input
+                  type="datetime-local"
+                  value={toDateTimeInput(formData.publishAt)}
+                  onChange={(e) => setFormData({ ...formData, publishAt: fromDateTimeInput(e.target.value) })}
+                  className="w-full bg-white border border-gray-200 p-4 outline-none focus:border-black font-serif text-lg"
+                />
+                <p className="text-[10px] text-muted mt-2">
+                  Leave empty to publish immediately. The piece stays hidden until this time.
+                </p>
+              </div>
+            )}
+          </div>
+
           {/* Title (hidden for quotes) */}
-          {formData.type !== ContentType.QUOTE && (
+          {formType.hasTitle && (
             <div>
               <label className="block text-[10px] uppercase tracking-widest text-muted mb-2">
                 Title
@@ -261,7 +723,7 @@ export default function CMS({
           )}
 
           {/* Excerpt */}
-          {formData.type !== ContentType.QUOTE && (
+          {formType.hasExcerpt && (
             <div>
               <label className="block text-[10px] uppercase tracking-widest text-muted mb-2">
                 Excerpt / Preview
@@ -269,50 +731,248 @@ export default function CMS({
               <textarea
                 value={formData.excerpt || ''}
                 onChange={(e) => setFormData({ ...formData, excerpt: e.target.value })}
-                placeholder="Short preview text..."
+                placeholder={plainExcerpt(formData.body || '', 150) || 'Short preview text...'}
                 rows={3}
                 className="w-full bg-white border border-gray-200 p-4 outline-none focus:border-black font-serif resize-none"
               />
             </div>
           )}
 
+          {/* Tags */}
+          <div>
+            <label className="block text-[10px] uppercase tracking-widest text-muted mb-2">
+              Tags / Themes
+            </label>
+            <TagInput
+              tags={formData.tags ?? []}
+              suggestions={collectTags(items.filter(i => !isTrashed(i)))}
+              onChange={(tags) => setFormData({ ...formData, tags })}
+            />
+            <p className="text-[10px] text-muted mt-2">
+              Press Enter or comma to add a tag. Each tag gets a public page listing its pieces.
+            </p>
+          </div>
+
           {/* Body */}
           <div>
             <label className="block text-[10px] uppercase tracking-widest text-muted mb-2">
               Body Content
             </label>
-            <textarea
-              value={formData.body || ''}
-              onChange={(e) => setFormData({ ...formData, body: e.target.value })}
-              placeholder={formData.type === ContentType.QUOTE ? 'Enter quote...' : 'Enter content...'}
-              rows={16}
-              className="w-full bg-white border border-gray-200 p-4 outline-none focus:border-black font-serif leading-relaxed resize-none"
-            />
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <textarea
+                value={formData.body || ''}
+                onChange={(e) => setFormData({ ...formData, body: e.target.value })}
+                placeholder={formType.renderer === TypeRenderer.QUOTE ? 'Enter quote...' : 'Enter content...'}
+                rows={16}
+                className="w-full bg-white border border-gray-200 p-4 outline-none focus:border-black font-mono text-sm leading-relaxed resize-none"
+              />
+              <div
+                aria-label="Preview"
+                className="bg-white border border-gray-100 p-6 max-h-[28rem] overflow-y-auto font-serif text-gray-600 leading-relaxed"
+              >
+                {!formData.body
+                  ? <p className="text-muted italic">Preview</p>
+                  : formType.renderer === TypeRenderer.VERSE
+                    ? <Verse source={formData.body} lineNumbers={formData.lineNumbers} className="pl-8" />
+                    : <Markdown source={formData.body} />}
+              </div>
+            </div>
             <p className="text-[10px] text-muted mt-2">
-              Use line breaks for new paragraphs. For poetry, use line breaks for each line.
+              {formType.renderer === TypeRenderer.VERSE
+                ? 'One line per verse and a blank line between stanzas; leading spaces indent a line and inner spaces are kept.'
+                : 'Leave a blank line between paragraphs; single line breaks are kept.'}
+              {' '}*italics*, **bold**, [link](https://…), &gt; epigraph, *** section break, footnote[^1] with a line [^1]: note.
             </p>
+            {formType.renderer === TypeRenderer.VERSE && (
+              <label className="flex items-center space-x-2 mt-4 text-xs">
+                <input
+                  type="checkbox"
+                  checked={formData.lineNumbers ?? false}
+                  onChange={(e) => setFormData({ ...formData, lineNumbers: e.target.checked })}
+                />
+                <span>Number every fifth line</span>
+              </label>
+            )}
           </div>
-        </div>
+        </fieldset>
+
+        {editingItem && !isPreviewing && (
+          <RevisionHistory
+            itemId={editingItem.id}
+            currentBody={formData.body || ''}
+            refreshKey={editingItem}
+            canRestore={canEditItem}
+            onLoadRevisions={onLoadRevisions}
+            onRestore={handleRestoreRevision}
+          />
+        )}
       </div>
     );
   }
 
+  const activeItems = items.filter(i => !isTrashed(i));
+  const trashedItems = items.filter(isTrashed);
+  const matchingIds = searchQuery.trim()
+    ? new Set(searchItems(searchIndex, searchQuery).map(i => i.id))
+    : null;
+  const isFiltered = statusFilter !== 'all' || typeFilter !== 'all' || tagFilter !== 'all' || matchingIds !== null;
+  const filteredItems = activeItems.filter(i =>
+    (statusFilter === 'all' || getStatus(i) === statusFilter)
+    && (typeFilter === 'all' || i.type === typeFilter)
+    && (tagFilter === 'all' || hasTag(i, tagFilter))
+    && (!matchingIds || matchingIds.has(i.id))
+  );
+  const listTags = collectTags(activeItems);
+  const visibleItems = sortOrder === 'manual'
+    ? filteredItems
+    : sortOrder === 'newest' ? newestFirstByDate(filteredItems) : newestFirstByDate(filteredItems).reverse();
+  // Positions only make sense on the unfiltered list in site order
+  const canReorder = can('content.reorder') && !isFiltered && sortOrder === 'manual';
+
+  // Bulk actions apply to the selected pieces the filters still show
+  const selectedItems = visibleItems.filter(i => selectedIds.has(i.id));
+  const allSelected = selectedItems.length > 0 && selectedItems.length === visibleItems.length;
+  const canEditListItem = (item: ContentItem) =>
+    can('content.edit') && (canPublish || UNPUBLISHED_STATUSES.includes(getStatus(item)));
+  // Scheduling needs a date per piece, so it stays in the editor
+  const bulkStatusOptions = statusOptions.filter(status => status !== ContentStatus.SCHEDULED);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleAllSelected = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(visibleItems.map(i => i.id)));
+  };
+
+  const listTitles = (list: ContentItem[]) =>
+    list.slice(0, 5).map(i => `"${i.title || plainExcerpt(i.body, 30)}"`).join(', ') + (list.length > 5 ? ', ...' : '');
+
+  // Runs a bulk write with a progress bar, then reports what was left unchanged
+  const runBulk = async (
+    label: string,
+    targets: ContentItem[],
+    skipped: ContentItem[],
+    write: (onProgress: (done: number) => void) => Promise<BulkResult>
+  ) => {
+    setErrorMessage(null);
+    setBulkNotice(null);
+    setBulkProgress({ label, done: 0, total: targets.length });
+    const result = await write((done) => setBulkProgress({ label, done, total: targets.length }));
+    setBulkProgress(null);
+
+    const failed = targets.filter(i => result.failed.includes(i.id));
+    const problems = [
+      failed.length ? `${failed.length} could not be saved (${listTitles(failed)})` : '',
+      skipped.length ? `${skipped.length} your role may not change (${listTitles(skipped)})` : ''
+    ].filter(Boolean);
+    const total = targets.length + skipped.length;
+    if (problems.length > 0) {
+      setErrorMessage(`${label}: done for ${result.saved.length} of ${total} pieces. ${problems.join('; ')}.`);
+    } else {
+      setBulkNotice(`${label}: done for ${total} ${total === 1 ? 'piece' : 'pieces'}.`);
+      setTimeout(() => setBulkNotice(null), 3000);
+    }
+    return result;
+  };
+
+  const handleBulkEdit = (edit: BulkEdit) => {
+    const targets = selectedItems.filter(canEditListItem);
+    const skipped = selectedItems.filter(i => !canEditListItem(i));
+    const label = edit.type === 'setType' ? 'Change type'
+      : edit.type === 'setStatus' ? 'Change status'
+      : edit.type === 'addTag' ? 'Add tag' : 'Remove tag';
+    runBulk(label, targets, skipped, (onProgress) => onSaveItems(targets.map(i => applyBulkEdit(i, edit)), onProgress));
+  };
+
+  const handleBulkTrash = async () => {
+    setShowBulkDeleteConfirm(false);
+    const result = await runBulk('Move to trash', selectedItems, [], (onProgress) =>
+      onDeleteItems(selectedItems.map(i => i.id), onProgress));
+    setSelectedIds(prev => new Set([...prev].filter(id => !result.saved.includes(id))));
+  };
+
+  // The selected pieces move together, keeping their order, in one meta write
+  const handleMoveSelection = async (toIndex: number) => {
+    setErrorMessage(null);
+    const order = moveBlock(activeItems.map(i => i.id), new Set(selectedItems.map(i => i.id)), toIndex);
+    if (!(await onSaveMeta({ contentOrder: order }))) {
+      setErrorMessage('Failed to save the new order. Please try again.');
+    }
+  };
+
+  const handleExportSelection = () => {
+    downloadJSON(`${slugify(settings.siteTitle) || 'content'}-selection.json`, createBundle({ items: selectedItems }));
+  };
+
+  // The bulk bar's actions, while it shows and is not busy
+  const selectionLabel = `${selectedItems.length} selected`;
+  const selectionCommands: PaletteCommand[] = activeTab === 'content' && selectedItems.length > 0 && !bulkProgress ? [
+    ...(can('content.edit') ? [
+      ...contentTypes.map((type) => ({
+        id: `selection-type-${type.id}`,
+        label: `Change type to ${type.label}`,
+        group: 'Selection',
+        keywords: [selectionLabel],
+        run: () => handleBulkEdit({ type: 'setType', contentType: type.id })
+      })),
+      ...bulkStatusOptions.map((status) => ({
+        id: `selection-status-${status}`,
+        label: `Change status to ${STATUS_LABELS[status]}`,
+        group: 'Selection',
+        keywords: [selectionLabel],
+        run: () => handleBulkEdit({ type: 'setStatus', status })
+      })),
+      ...listTags.map(({ tag, slug }) => ({
+        id: `selection-add-tag-${slug}`,
+        label: `Add tag #${tag}`,
+        group: 'Selection',
+        keywords: [selectionLabel],
+        run: () => handleBulkEdit({ type: 'addTag', tag })
+      })),
+      ...collectTags(selectedItems).map(({ tag, slug }) => ({
+        id: `selection-remove-tag-${slug}`,
+        label: `Remove tag #${tag}`,
+        group: 'Selection',
+        keywords: [selectionLabel],
+        run: () => handleBulkEdit({ type: 'removeTag', tag })
+      }))
+    ] : []),
+    { id: 'selection-export', label: 'Export selection', group: 'Selection', keywords: [selectionLabel], run: handleExportSelection },
+    ...(canDelete ? [{
+      id: 'selection-trash',
+      label: 'Move selection to trash',
+      group: 'Selection',
+      keywords: [selectionLabel],
+      run: () => setShowBulkDeleteConfirm(true)
+    }] : []),
+    { id: 'selection-clear', label: 'Clear selection', group: 'Selection', run: () => setSelectedIds(new Set()) }
+  ] : [];
+
   // Main Dashboard View
   return (
     <div className="min-h-screen bg-paper pt-32 pb-32 px-6 md:px-24 max-w-6xl mx-auto animate-fade-in">
+      {renderPalette(selectionCommands)}
       {/* Header */}
       <header className="mb-12 border-b border-black pb-8 flex flex-col md:flex-row justify-between items-start md:items-end gap-6">
         <div>
-          <span className="font-sans text-xs tracking-widest text-muted uppercase">Dashboard</span>
+          <span className="font-sans text-xs tracking-widest text-muted uppercase">Dashboard • {ROLE_LABELS[role]}</span>
           <h1 className="font-serif text-5xl md:text-6xl text-dark tracking-tight">Content Management</h1>
         </div>
         <div className="flex space-x-4">
-          <button 
-            onClick={handleCreateNew}
-            className="font-sans text-xs font-bold uppercase tracking-widest bg-black text-white px-6 py-3 hover:bg-gray-800 transition-all"
-          >
-            + New Post
-          </button>
+          {can('content.create') && (
+            <button 
+              onClick={() => handleCreateNew()}
+              className="font-sans text-xs font-bold uppercase tracking-widest bg-black text-white px-6 py-3 hover:bg-gray-800 transition-all"
+            >
+              + New Post
+            </button>
+          )}
           <button 
             onClick={onLogout}
             className="font-sans text-xs font-bold uppercase tracking-widest text-red-500 border border-red-500 px-6 py-3 hover:bg-red-500 hover:text-white transition-all"
@@ -329,105 +989,264 @@ export default function CMS({
           <span className="text-sm font-medium">
             {isFirebaseConfigured 
               ? 'Firebase Integration: Active - Changes will be saved to cloud' 
-              : 'Local Mode - Configure Firebase environment variables to enable cloud sync'}
+              : 'Local Mode - Changes are stored in this browser. Configure Firebase environment variables to enable cloud sync'}
           </span>
         </div>
       </div>
 
+      {storeError && (
+        <div className="mb-8 p-4 bg-red-50 border border-red-200 text-red-800 text-sm">
+          {storeError}
+        </div>
+      )}
+
       {/* Tabs */}
       <div className="flex space-x-1 mb-8 border-b border-gray-200">
-        <button
-          onClick={() => setActiveTab('content')}
-          className={`px-6 py-3 font-sans text-xs font-bold uppercase tracking-widest transition-all ${
-            activeTab === 'content' 
-              ? 'bg-black text-white' 
-              : 'text-muted hover:text-dark'
-          }`}
-        >
-          Content
-        </button>
-        <button
-          onClick={() => setActiveTab('settings')}
-          className={`px-6 py-3 font-sans text-xs font-bold uppercase tracking-widest transition-all ${
-            activeTab === 'settings' 
-              ? 'bg-black text-white' 
-              : 'text-muted hover:text-dark'
-          }`}
-        >
-          Site Settings
-        </button>
+        {visibleTabs.map((tab) => (
+          <button
+            key={tab}
+            onClick={() => onTabChange(tab)}
+            className={`px-6 py-3 font-sans text-xs font-bold uppercase tracking-widest transition-all ${
+              activeTab === tab
+                ? 'bg-black text-white'
+                : 'text-muted hover:text-dark'
+            }`}
+          >
+            {TAB_LABELS[tab]}{tab === 'trash' && ` (${trashedItems.length})`}
+          </button>
+        ))}
       </div>
 
       {/* Content Tab */}
       {activeTab === 'content' && (
         <div>
           {/* Stats */}
-          <div className="grid grid-cols-3 gap-6 mb-12">
-            <div className="bg-white border border-gray-200 p-6 text-center">
-              <div className="font-serif text-4xl mb-2">
-                {items.filter(i => i.type === ContentType.STORY).length}
-              </div>
-              <div className="text-[10px] uppercase tracking-widest text-muted">Stories</div>
-            </div>
-            <div className="bg-white border border-gray-200 p-6 text-center">
-              <div className="font-serif text-4xl mb-2">
-                {items.filter(i => i.type === ContentType.POEM).length}
+          <div className={`grid ${STAT_COLUMNS[Math.min(contentTypes.length, STAT_COLUMNS.length - 1)]} gap-6 mb-12`}>
+            {contentTypes.map((type) => (
+              <div key={type.id} className="bg-white border border-gray-200 p-6 text-center">
+                <div className="font-serif text-4xl mb-2">
+                  {countByType(activeItems, type.id)}
+                </div>
+                <div className="text-[10px] uppercase tracking-widest text-muted">{type.plural}</div>
               </div>
-              <div className="text-[10px] uppercase tracking-widest text-muted">Poems</div>
+            ))}
+          </div>
+
+          {/* Search and Filters */}
+          <div className="flex flex-wrap gap-2 mb-4">
+            <input
+              type="search"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              placeholder="Search title, excerpt and text..."
+              aria-label="Search content"
+              className="flex-1 min-w-[12rem] bg-white border border-gray-200 px-4 py-2 outline-none focus:border-black font-serif"
+            />
+            <select
+              value={typeFilter}
+              onChange={(e) => setTypeFilter(e.target.value)}
+              aria-label="Filter by type"
+              className="px-3 py-2 text-[10px] font-bold uppercase tracking-widest border border-gray-200 bg-white outline-none focus:border-black"
+            >
+              <option value="all">All types</option>
+              {contentTypes.map((type) => (
+                <option key={type.id} value={type.id}>{type.plural}</option>
+              ))}
+            </select>
+            <select
+              value={tagFilter}
+              onChange={(e) => setTagFilter(e.target.value)}
+              aria-label="Filter by tag"
+              className="px-3 py-2 text-[10px] font-bold uppercase tracking-widest border border-gray-200 bg-white outline-none focus:border-black"
+            >
+              <option value="all">All tags</option>
+              {listTags.map(({ tag, slug, count }) => (
+                <option key={slug} value={slug}>{tag} ({count})</option>
+              ))}
+            </select>
+          </div>
+
+          {/* Status Filter */}
+          <div className="flex flex-wrap items-center gap-2 mb-8">
+            {(['all', ...STATUSES] as const).map((status) => (
+              <button
+                key={status}
+                onClick={() => setStatusFilter(status)}
+                className={`px-3 py-2 text-[10px] font-bold uppercase tracking-widest border transition-all ${
+                  statusFilter === status
+                    ? 'bg-black text-white border-black'
+                    : 'border-gray-200 text-muted hover:text-dark hover:border-black'
+                }`}
+              >
+                {status === 'all' ? 'All' : STATUS_LABELS[status]} ({status === 'all'
+                  ? activeItems.length
+                  : activeItems.filter(i => getStatus(i) === status).length})
+              </button>
+            ))}
+            <select
+              value={sortOrder}
+              onChange={(e) => setSortOrder(e.target.value as typeof sortOrder)}
+              aria-label="Sort"
+              className="ml-auto px-3 py-2 text-[10px] font-bold uppercase tracking-widest border border-gray-200 bg-white outline-none focus:border-black"
+            >
+              <option value="manual">Site order</option>
+              <option value="newest">Newest first</option>
+              <option value="oldest">Oldest first</option>
+            </select>
+          </div>
+
+          {errorMessage && (
+            <div className="mb-6 p-4 bg-red-50 border border-red-200 text-red-800 text-sm">
+              {errorMessage}
             </div>
-            <div className="bg-white border border-gray-200 p-6 text-center">
-              <div className="font-serif text-4xl mb-2">
-                {items.filter(i => i.type === ContentType.QUOTE).length}
-              </div>
-              <div className="text-[10px] uppercase tracking-widest text-muted">Quotes</div>
+          )}
+
+          {bulkNotice && (
+            <div className="mb-6 p-4 bg-green-50 border border-green-200 text-green-800 text-sm">
+              {bulkNotice}
             </div>
-          </div>
+          )}
+
+          {selectedItems.length > 0 && (
+            <BulkActionBar
+              count={selectedItems.length}
+              contentTypes={contentTypes}
+              statusOptions={bulkStatusOptions}
+              tags={collectTags(selectedItems)}
+              siteLength={activeItems.length}
+              canEdit={can('content.edit')}
+              canDelete={canDelete}
+              canReorder={can('content.reorder')}
+              progress={bulkProgress}
+              onEdit={handleBulkEdit}
+              onMove={handleMoveSelection}
+              onExport={handleExportSelection}
+              onTrash={() => setShowBulkDeleteConfirm(true)}
+              onClear={() => setSelectedIds(new Set())}
+            />
+          )}
 
           {/* Content List */}
-          <h3 className="text-[10px] uppercase tracking-[0.3em] text-muted mb-6">
-            All Content ({items.length} items)
+          <h3 className="flex items-center text-[10px] uppercase tracking-[0.3em] text-muted mb-2">
+            {visibleItems.length > 0 && (
+              <input
+                type="checkbox"
+                checked={allSelected}
+                onChange={toggleAllSelected}
+                disabled={bulkProgress !== null}
+                aria-label="Select all shown pieces"
+                className="mr-4"
+              />
+            )}
+            {statusFilter === 'all' ? 'All Content' : STATUS_LABELS[statusFilter]} ({visibleItems.length} items)
           </h3>
+          <p className="text-[10px] text-muted mb-6">
+            {canReorder
+              ? 'Drag pieces to reorder the site, or focus a row and use Alt+↑/↓ (Alt+Home moves it to the top).'
+              : can('content.reorder') ? 'Clear the filters and show all content in site order to reorder.' : '\u00a0'}
+          </p>
           
-          {items.length === 0 ? (
+          {visibleItems.length === 0 ? (
             <div className="p-12 text-center border border-dashed border-gray-200 font-serif italic text-muted">
-              The archive is empty. Create your first post.
+              {isFiltered ? 'Nothing matches these filters.' : 'The archive is empty. Create your first post.'}
             </div>
           ) : (
             <div className="space-y-3">
-              {items.map((item, index) => (
+              {visibleItems.map((item, index) => (
                 <div 
                   key={item.id} 
-                  className="group flex items-center justify-between p-5 border border-gray-200 hover:border-black transition-all bg-white"
+                  draggable={canReorder}
+                  tabIndex={canReorder ? 0 : undefined}
+                  aria-label={canReorder ? `${item.title || item.type}, position ${index + 1}` : undefined}
+                  onKeyDown={canReorder ? (e) => handleRowKeyDown(e, item.id, index) : undefined}
+                  onDragStart={() => setDragId(item.id)}
+                  onDragOver={(e) => {
+                    if (!dragId) return;
+                    e.preventDefault();
+                    setDropId(item.id);
+                  }}
+                  onDragEnd={() => {
+                    setDragId(null);
+                    setDropId(null);
+                  }}
+                  onDrop={() => handleDrop(index)}
+                  className={`group flex items-center justify-between p-5 border hover:border-black transition-all bg-white outline-none focus:border-black ${
+                    dropId === item.id && dragId !== item.id ? 'border-accent border-2' : 'border-gray-200'
+                  } ${dragId === item.id ? 'opacity-40' : ''} ${canReorder ? 'cursor-grab' : ''}`}
                 >
                   <div className="flex items-center space-x-6 flex-1">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.has(item.id)}
+                      onChange={() => toggleSelected(item.id)}
+                      disabled={bulkProgress !== null}
+                      aria-label={`Select ${item.title || plainExcerpt(item.body, 40)}`}
+                    />
                     <span className="font-sans text-xs text-muted w-8">
                       {String(index + 1).padStart(2, '0')}
                     </span>
                     <span className={`text-[10px] font-bold uppercase tracking-tighter px-2 py-1 ${getTypeColor(item.type)}`}>
-                      {item.type}
+                      {getTypeDefinition(contentTypes, item.type).label}
+                    </span>
+                    <span className={`text-[10px] font-bold uppercase tracking-tighter px-2 py-1 ${getStatusColor(getStatus(item))}`}>
+                      {STATUS_LABELS[getStatus(item)]}
                     </span>
                     <div className="flex-1 min-w-0">
                       <h4 className="font-serif text-lg leading-none mb-1 truncate">
-                        {item.title || (item.body.substring(0, 40) + '...')}
+                        {item.title || plainExcerpt(item.body, 40)}
                       </h4>
                       <p className="text-[10px] text-muted uppercase tracking-widest">
-                        {item.date || 'No Date'} • ID: {item.id}
+                        {formatDate(displayDate(item)) || 'No Date'} • /piece/{slugOf(item)}
+                        {item.tags?.length ? ` • ${item.tags.map(t => `#${t}`).join(' ')}` : ''}
                       </p>
                     </div>
                   </div>
                   <div className="flex space-x-3">
+                    {canReorder && (
+                      <div className="flex items-center opacity-40 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity">
+                        <button
+                          onClick={() => handleMove(item.id, 0)}
+                          disabled={index === 0}
+                          aria-label="Move to top"
+                          title="Move to top"
+                          className="text-xs px-2 py-2 hover:text-accent disabled:opacity-30"
+                        >
+                          ⤒
+                        </button>
+                        <button
+                          onClick={() => handleMove(item.id, index - 1)}
+                          disabled={index === 0}
+                          aria-label="Move up"
+                          title="Move up"
+                          className="text-xs px-2 py-2 hover:text-accent disabled:opacity-30"
+                        >
+                          ↑
+                        </button>
+                        <button
+                          onClick={() => handleMove(item.id, index + 1)}
+                          disabled={index === visibleItems.length - 1}
+                          aria-label="Move down"
+                          title="Move down"
+                          className="text-xs px-2 py-2 hover:text-accent disabled:opacity-30"
+                        >
+                          ↓
+                        </button>
+                      </div>
+                    )}
                     <button 
                       onClick={() => handleEdit(item)}
                       className="text-[10px] uppercase font-bold tracking-widest hover:text-accent px-3 py-2"
                     >
-                      Edit
-                    </button>
-                    <button 
-                      onClick={() => setShowDeleteConfirm(item.id)}
-                      className="text-[10px] uppercase font-bold tracking-widest text-red-400 hover:text-red-600 px-3 py-2"
-                    >
-                      Delete
+                      {canEditListItem(item) ? 'Edit' : 'View'}
                     </button>
+                    {can('content.delete') && (
+                      <button 
+                        onClick={() => setShowDeleteConfirm(item.id)}
+                        className="text-[10px] uppercase font-bold tracking-widest text-red-400 hover:text-red-600 px-3 py-2"
+                      >
+                        Delete
+                      </button>
+                    )}
                   </div>
                 </div>
               ))}
@@ -436,93 +1255,186 @@ export default function CMS({
         </div>
       )}
 
+      {/* Series Tab */}
+      {activeTab === 'collections' && (
+        <CollectionsTab
+          collections={collections}
+          items={activeItems}
+          canEdit={can('collections.edit')}
+          onSave={onSaveCollection}
+          onDelete={onDeleteCollection}
+        />
+      )}
+
+      {/* Trash Tab */}
+      {activeTab === 'trash' && (
+        <TrashTab
+          items={trashedItems}
+          retentionDays={retentionDays}
+          canManage={canDelete}
+          onRestore={onRestoreItem}
+          onPurge={onPurgeItem}
+        />
+      )}
+
       {/* Settings Tab */}
       {activeTab === 'settings' && (
-        <div className="space-y-8">
-          {errorMessage && (
-            <div className="p-4 bg-red-50 border border-red-200 text-red-800 text-sm">
-              {errorMessage}
+        <>
+          <fieldset disabled={!can('settings.edit')} className="space-y-8">
+            {errorMessage && (
+              <div className="p-4 bg-red-50 border border-red-200 text-red-800 text-sm">
+                {errorMessage}
+              </div>
+            )}
+
+            <div>
+              <label className="block text-[10px] uppercase tracking-widest text-muted mb-2">
+                Site Title
+              </label>
+              <input
+                type="text"
+                value={settingsForm.siteTitle}
+                onChange={(e) => setSettingsForm({ ...settingsForm, siteTitle: e.target.value })}
+                className="w-full bg-white border border-gray-200 p-4 outline-none focus:border-black font-serif text-xl"
+              />
             </div>
-          )}
 
-          <div>
-            <label className="block text-[10px] uppercase tracking-widest text-muted mb-2">
-              Site Title
-            </label>
-            <input
-              type="text"
-              value={settingsForm.siteTitle}
-              onChange={(e) => setSettingsForm({ ...settingsForm, siteTitle: e.target.value })}
-              className="w-full bg-white border border-gray-200 p-4 outline-none focus:border-black font-serif text-xl"
-            />
-          </div>
+            <div>
+              <label className="block text-[10px] uppercase tracking-widest text-muted mb-2">
+                Site Description
+              </label>
+              <textarea
+                value={settingsForm.siteDescription}
+                onChange={(e) => setSettingsForm({ ...settingsForm, siteDescription: e.target.value })}
+                rows={2}
+                className="w-full bg-white border border-gray-200 p-4 outline-none focus:border-black font-serif resize-none"
+              />
+            </div>
 
-          <div>
-            <label className="block text-[10px] uppercase tracking-widest text-muted mb-2">
-              Site Description
-            </label>
-            <textarea
-              value={settingsForm.siteDescription}
-              onChange={(e) => setSettingsForm({ ...settingsForm, siteDescription: e.target.value })}
-              rows={2}
-              className="w-full bg-white border border-gray-200 p-4 outline-none focus:border-black font-serif resize-none"
-            />
-          </div>
+            <div>
+              <label className="block text-[10px] uppercase tracking-widest text-muted mb-2">
+                Author Name
+              </label>
+              <input
+                type="text"
+                value={settingsForm.authorName}
+                onChange={(e) => setSettingsForm({ ...settingsForm, authorName: e.target.value })}
+                className="w-full bg-white border border-gray-200 p-4 outline-none focus:border-black font-serif text-xl"
+              />
+            </div>
 
-          <div>
-            <label className="block text-[10px] uppercase tracking-widest text-muted mb-2">
-              Author Name
-            </label>
-            <input
-              type="text"
-              value={settingsForm.authorName}
-              onChange={(e) => setSettingsForm({ ...settingsForm, authorName: e.target.value })}
-              className="w-full bg-white border border-gray-200 p-4 outline-none focus:border-black font-serif text-xl"
-            />
-          </div>
+            <div>
+              <label className="block text-[10px] uppercase tracking-widest text-muted mb-2">
+                Author Bio
+              </label>
+              <textarea
+                value={settingsForm.authorBio}
+                onChange={(e) => setSettingsForm({ ...settingsForm, authorBio: e.target.value })}
+                rows={3}
+                className="w-full bg-white border border-gray-200 p-4 outline-none focus:border-black font-serif resize-none"
+              />
+            </div>
 
-          <div>
-            <label className="block text-[10px] uppercase tracking-widest text-muted mb-2">
-              Author Bio
-            </label>
-            <textarea
-              value={settingsForm.authorBio}
-              onChange={(e) => setSettingsForm({ ...settingsForm, authorBio: e.target.value })}
-              rows={3}
-              className="w-full bg-white border border-gray-200 p-4 outline-none focus:border-black font-serif resize-none"
-            />
-          </div>
+            <div>
+              <label className="block text-[10px] uppercase tracking-widest text-muted mb-2">
+                Author Roles (comma separated)
+              </label>
+              <input
+                type="text"
+                value={Array.isArray(settingsForm.authorRoles) ? settingsForm.authorRoles.join(', ') : ''}
+                onChange={(e) => setSettingsForm({ 
+                  ...settingsForm, 
+                  authorRoles: e.target.value.split(',').map(r => r.trim()).filter(Boolean)
+                })}
+                placeholder="Author, Curator, Dreamer"
+                className="w-full bg-white border border-gray-200 p-4 outline-none focus:border-black font-serif"
+              />
+            </div>
 
-          <div>
-            <label className="block text-[10px] uppercase tracking-widest text-muted mb-2">
-              Author Roles (comma separated)
-            </label>
-            <input
-              type="text"
-              value={Array.isArray(settingsForm.authorRoles) ? settingsForm.authorRoles.join(', ') : ''}
-              onChange={(e) => setSettingsForm({ 
-                ...settingsForm, 
-                authorRoles: e.target.value.split(',').map(r => r.trim()).filter(Boolean)
-              })}
-              placeholder="Author, Curator, Dreamer"
-              className="w-full bg-white border border-gray-200 p-4 outline-none focus:border-black font-serif"
+            <div>
+              <label className="block text-[10px] uppercase tracking-widest text-muted mb-2">
+                Trash Retention (days, 0 keeps deleted pieces forever)
+              </label>
+              <input
+                type="number"
+                min={0}
+                value={settingsForm.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS}
+                onChange={(e) => setSettingsForm({ 
+                  ...settingsForm, 
+                  trashRetentionDays: Math.max(0, Number(e.target.value) || 0)
+                })}
+                className="w-full bg-white border border-gray-200 p-4 outline-none focus:border-black font-serif"
+              />
+            </div>
+
+            <ContentTypesEditor
+              types={getContentTypes(settingsForm)}
+              savedIds={contentTypes.map(t => t.id)}
+              items={items}
+              onChange={(types) => setSettingsForm({ ...settingsForm, contentTypes: types })}
             />
-          </div>
 
-          <div className="pt-4">
-            <button 
-              onClick={handleSaveSettings}
-              disabled={saveStatus === 'saving'}
-              className={`font-sans text-xs font-bold uppercase tracking-widest px-8 py-3 transition-all ${
-                saveStatus === 'saved' 
-                  ? 'bg-green-600 text-white' 
-                  : saveStatus === 'error'
-                  ? 'bg-red-500 text-white'
-                  : 'bg-black text-white hover:bg-gray-800'
-              }`}
-            >
-              {saveStatus === 'saving' ? 'Saving...' : saveStatus === 'saved' ? 'Saved!' : saveStatus === 'error' ? 'Error' : 'Save Settings'}
-            </button>
+            {can('settings.edit') && (
+            <div className="pt-4">
+              <button 
+                onClick={handleSaveSettings}
+                disabled={saveStatus === 'saving'}
+                className={`font-sans text-xs font-bold uppercase tracking-widest px-8 py-3 transition-all ${
+                  saveStatus === 'saved' 
+                    ? 'bg-green-600 text-white' 
+                    : saveStatus === 'error'
+                    ? 'bg-red-500 text-white'
+                    : 'bg-black text-white hover:bg-gray-800'
+                }`}
+              >
+                {saveStatus === 'saving' ? 'Saving...' : saveStatus === 'saved' ? 'Saved!' : saveStatus === 'error' ? 'Error' : 'Save Settings'}
+              </button>
+            </div>
+            )}
+          </fieldset>
+
+          <BackupPanel
+            items={items}
+            collections={collections}
+            settings={settings}
+            canImport={can('settings.edit')}
+            onImport={onImportBundle}
+          />
+        </>
+      )}
+
+      {/* Users Tab */}
+      {activeTab === 'users' && can('users.manage') && (
+        <UsersTab currentUid={currentUid} />
+      )}
+
+      {/* Bulk Delete Confirmation Modal */}
+      {showBulkDeleteConfirm && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-white p-8 max-w-md mx-4">
+            <h3 className="font-serif text-2xl mb-4">
+              Move {selectedItems.length} {selectedItems.length === 1 ? 'piece' : 'pieces'} to Trash?
+            </h3>
+            <p className="text-muted mb-6">
+              They will be hidden from the site.
+              {retentionDays > 0
+                ? ` You can restore them from the Trash for ${retentionDays} days.`
+                : ' You can restore them from the Trash.'}
+            </p>
+            <div className="flex space-x-4">
+              <button 
+                onClick={() => setShowBulkDeleteConfirm(false)}
+                className="flex-1 font-sans text-xs font-bold uppercase tracking-widest border border-gray-300 px-6 py-3 hover:border-black transition-all"
+              >
+                Cancel
+              </button>
+              <button 
+                onClick={handleBulkTrash}
+                className="flex-1 font-sans text-xs font-bold uppercase tracking-widest bg-red-500 text-white px-6 py-3 hover:bg-red-600 transition-all"
+              >
+                Move to Trash
+              </button>
+            </div>
           </div>
         </div>
       )}
@@ -531,9 +1443,12 @@ export default function CMS({
       {showDeleteConfirm && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
           <div className="bg-white p-8 max-w-md mx-4">
-            <h3 className="font-serif text-2xl mb-4">Delete Content?</h3>
+            <h3 className="font-serif text-2xl mb-4">Move to Trash?</h3>
             <p className="text-muted mb-6">
-              This action cannot be undone. The content will be permanently removed.
+              The content will be hidden from the site.
+              {retentionDays > 0
+                ? ` You can restore it from the Trash for ${retentionDays} days.`
+                : ' You can restore it from the Trash.'}
             </p>
             <div className="flex space-x-4">
               <button 
@@ -546,7 +1461,7 @@ export default function CMS({
                 onClick={() => handleDelete(showDeleteConfirm)}
                 className="flex-1 font-sans text-xs font-bold uppercase tracking-widest bg-red-500 text-white px-6 py-3 hover:bg-red-600 transition-all"
               >
-                Delete
+                Move to Trash
               </button>
             </div>
           </div>
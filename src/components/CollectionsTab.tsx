@@ -0,0 +1,308 @@
+import { useState } from 'react';
+import { moveId } from '@/lib/store';
+import { uniqueCollectionSlug } from '@/lib/collections';
+import { plainExcerpt } from '@/lib/markdown';
+import { getStatus, STATUS_LABELS } from '@/lib/status';
+import type { Collection, ContentItem } from '@/types';
+
+interface CollectionsTabProps {
+  collections: Collection[];
+  // Pieces that may be added to a series (everything outside the trash)
+  items: ContentItem[];
+  canEdit: boolean;
+  onSave: (collection: Collection) => Promise<boolean>;
+  onDelete: (id: string) => Promise<boolean>;
+}
+
+const EMPTY_COLLECTION: Omit<Collection, 'id' | 'slug'> = {
+  title: '',
+  description: '',
+  coverText: '',
+  itemIds: []
+};
+
+const pieceLabel = (item: ContentItem) => item.title || plainExcerpt(item.body, 40);
+
+export default function CollectionsTab({ collections, items, canEdit, onSave, onDelete }: CollectionsTabProps) {
+  const [draft, setDraft] = useState<Collection | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const itemsById = new Map(items.map((item) => [item.id, item]));
+  const sorted = [...collections].sort((a, b) => a.title.localeCompare(b.title));
+  const isNew = draft !== null && !collections.some((c) => c.id === draft.id);
+
+  const handleCreate = () => {
+    setErrorMessage(null);
+    setDraft({ ...EMPTY_COLLECTION, id: crypto.randomUUID(), slug: '' });
+  };
+
+  const handleSave = async () => {
+    if (!draft || !draft.title.trim()) return;
+    setIsSaving(true);
+    setErrorMessage(null);
+    // The slug is fixed on creation so shared series links keep working
+    const saved: Collection = {
+      ...draft,
+      title: draft.title.trim(),
+      slug: draft.slug || uniqueCollectionSlug(draft.title, collections, draft.id),
+      description: draft.description?.trim() || undefined,
+      coverText: draft.coverText?.trim() || undefined
+    };
+    if (await onSave(saved)) {
+      setDraft(null);
+    } else {
+      setErrorMessage('Failed to save the series. Please try again.');
+    }
+    setIsSaving(false);
+  };
+
+  const handleDelete = async (id: string) => {
+    setShowDeleteConfirm(null);
+    setErrorMessage(null);
+    if (!(await onDelete(id))) setErrorMessage('Failed to delete the series. Please try again.');
+  };
+
+  const updateMembers = (itemIds: string[]) => {
+    if (draft) setDraft({ ...draft, itemIds });
+  };
+
+  if (draft) {
+    const available = items.filter((item) => !draft.itemIds.includes(item.id));
+    return (
+      <div className="space-y-8">
+        {errorMessage && (
+          <div className="p-4 bg-red-50 border border-red-200 text-red-800 text-sm">
+            {errorMessage}
+          </div>
+        )}
+
+        <div className="flex items-center justify-between">
+          <h2 className="font-serif text-3xl">{isNew ? 'New Series' : draft.title || 'Untitled'}</h2>
+          <div className="flex space-x-3">
+            <button
+              onClick={() => setDraft(null)}
+              className="font-sans text-xs font-bold uppercase tracking-widest border border-gray-300 px-6 py-3 hover:border-black transition-all"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving || !draft.title.trim()}
+              className="font-sans text-xs font-bold uppercase tracking-widest bg-black text-white px-8 py-3 hover:bg-gray-800 transition-all disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-[10px] uppercase tracking-widest text-muted mb-2">
+            Title
+          </label>
+          <input
+            type="text"
+            value={draft.title}
+            onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+            placeholder="A cycle of winter poems..."
+            className="w-full bg-white border border-gray-200 p-4 outline-none focus:border-black font-serif text-2xl"
+          />
+          {!isNew && (
+            <p className="text-[10px] text-muted mt-2">Public page: /series/{draft.slug}</p>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-[10px] uppercase tracking-widest text-muted mb-2">
+            Description
+          </label>
+          <textarea
+            value={draft.description || ''}
+            onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+            rows={3}
+            placeholder="What ties these pieces together..."
+            className="w-full bg-white border border-gray-200 p-4 outline-none focus:border-black font-serif resize-none"
+          />
+        </div>
+
+        <div>
+          <label className="block text-[10px] uppercase tracking-widest text-muted mb-2">
+            Cover Text
+          </label>
+          <textarea
+            value={draft.coverText || ''}
+            onChange={(e) => setDraft({ ...draft, coverText: e.target.value })}
+            rows={4}
+            placeholder="An epigraph or opening lines shown on the series page..."
+            className="w-full bg-white border border-gray-200 p-4 outline-none focus:border-black font-serif italic resize-none"
+          />
+        </div>
+
+        <div>
+          <label className="block text-[10px] uppercase tracking-widest text-muted mb-2">
+            Parts ({draft.itemIds.length})
+          </label>
+          {draft.itemIds.length === 0 ? (
+            <div className="p-8 text-center border border-dashed border-gray-200 font-serif italic text-muted">
+              No pieces yet. Add them below in reading order.
+            </div>
+          ) : (
+            <ol className="space-y-2">
+              {draft.itemIds.map((id, index) => {
+                const item = itemsById.get(id);
+                return (
+                  <li key={id} className="flex items-center justify-between p-4 border border-gray-200 bg-white">
+                    <div className="flex items-center space-x-4 min-w-0">
+                      <span className="font-sans text-xs text-muted w-16">Part {index + 1}</span>
+                      <span className={`font-serif truncate ${item ? '' : 'italic text-muted'}`}>
+                        {item ? pieceLabel(item) : 'Missing piece'}
+                      </span>
+                      {item && (
+                        <span className="text-[10px] uppercase tracking-widest text-muted">
+                          {STATUS_LABELS[getStatus(item)]}
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex items-center">
+                      <button
+                        onClick={() => updateMembers(moveId(draft.itemIds, id, index - 1))}
+                        disabled={index === 0}
+                        aria-label="Move earlier"
+                        className="text-xs px-2 py-2 hover:text-accent disabled:opacity-30"
+                      >
+                        ↑
+                      </button>
+                      <button
+                        onClick={() => updateMembers(moveId(draft.itemIds, id, index + 1))}
+                        disabled={index === draft.itemIds.length - 1}
+                        aria-label="Move later"
+                        className="text-xs px-2 py-2 hover:text-accent disabled:opacity-30"
+                      >
+                        ↓
+                      </button>
+                      <button
+                        onClick={() => updateMembers(draft.itemIds.filter((itemId) => itemId !== id))}
+                        className="text-[10px] uppercase font-bold tracking-widest text-red-400 hover:text-red-600 px-3 py-2"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+          {available.length > 0 && (
+            <select
+              value=""
+              onChange={(e) => updateMembers([...draft.itemIds, e.target.value])}
+              className="mt-4 w-full bg-white border border-gray-200 p-4 outline-none focus:border-black font-serif"
+            >
+              <option value="" disabled>+ Add a piece...</option>
+              {available.map((item) => (
+                <option key={item.id} value={item.id}>
+                  {item.type} — {pieceLabel(item)}
+                </option>
+              ))}
+            </select>
+          )}
+          <p className="text-[10px] text-muted mt-2">
+            Only published parts appear on the site; numbering skips the others.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-8">
+        <p className="text-sm text-muted">
+          Series group multi-part stories and poem cycles into an ordered sequence with its own page.
+        </p>
+        {canEdit && (
+          <button
+            onClick={handleCreate}
+            className="font-sans text-xs font-bold uppercase tracking-widest bg-black text-white px-6 py-3 hover:bg-gray-800 transition-all"
+          >
+            + New Series
+          </button>
+        )}
+      </div>
+
+      {errorMessage && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 text-red-800 text-sm">
+          {errorMessage}
+        </div>
+      )}
+
+      {sorted.length === 0 ? (
+        <div className="p-12 text-center border border-dashed border-gray-200 font-serif italic text-muted">
+          No series yet.
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {sorted.map((collection) => (
+            <div
+              key={collection.id}
+              className="flex items-center justify-between p-5 border border-gray-200 bg-white"
+            >
+              <div className="flex-1 min-w-0">
+                <h4 className="font-serif text-lg leading-none mb-1 truncate">{collection.title}</h4>
+                <p className="text-[10px] text-muted uppercase tracking-widest">
+                  {collection.itemIds.length} {collection.itemIds.length === 1 ? 'part' : 'parts'} • /series/{collection.slug}
+                </p>
+              </div>
+              {canEdit && (
+                <div className="flex space-x-3">
+                  <button
+                    onClick={() => {
+                      setErrorMessage(null);
+                      setDraft(collection);
+                    }}
+                    className="text-[10px] uppercase font-bold tracking-widest hover:text-accent px-3 py-2"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => setShowDeleteConfirm(collection.id)}
+                    className="text-[10px] uppercase font-bold tracking-widest text-red-400 hover:text-red-600 px-3 py-2"
+                  >
+                    Delete
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Delete Confirmation Modal */}
+      {showDeleteConfirm && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-white p-8 max-w-md mx-4">
+            <h3 className="font-serif text-2xl mb-4">Delete Series?</h3>
+            <p className="text-muted mb-6">
+              The series page will be removed. Its pieces stay on the site.
+            </p>
+            <div className="flex space-x-4">
+              <button
+                onClick={() => setShowDeleteConfirm(null)}
+                className="flex-1 font-sans text-xs font-bold uppercase tracking-widest border border-gray-300 px-6 py-3 hover:border-black transition-all"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => handleDelete(showDeleteConfirm)}
+                className="flex-1 font-sans text-xs font-bold uppercase tracking-widest bg-red-500 text-white px-6 py-3 hover:bg-red-600 transition-all"
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
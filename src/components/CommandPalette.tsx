@@ -0,0 +1,77 @@
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut
+} from '@/components/ui/command';
+
+export interface PaletteCommand {
+  id: string;
+  label: string;
+  // Commands are listed under their group, groups in order of first appearance
+  group: string;
+  // Extra words the filter matches, like a piece's type
+  keywords?: string[];
+  shortcut?: string;
+  run: () => void;
+}
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  commands: PaletteCommand[];
+}
+
+export default function CommandPalette({ open, onOpenChange, commands }: CommandPaletteProps) {
+  const groups = [...new Set(commands.map((command) => command.group))];
+
+  const handleSelect = (command: PaletteCommand) => {
+    onOpenChange(false);
+    command.run();
+  };
+
+  return (
+    <CommandDialog
+      open={open}
+      onOpenChange={onOpenChange}
+      title="Commands"
+      description="Jump to a piece or run a command"
+      showCloseButton={false}
+      className="bg-white rounded-none border-gray-200 sm:max-w-xl font-sans"
+    >
+      <CommandInput placeholder="Type a command or a title..." />
+      <CommandList className="max-h-[400px]">
+        <CommandEmpty className="py-6 text-center text-sm text-muted font-serif italic">
+          No matching command.
+        </CommandEmpty>
+        {groups.map((group) => (
+          <CommandGroup
+            key={group}
+            heading={group}
+            className="[&_[cmdk-group-heading]]:text-[10px] [&_[cmdk-group-heading]]:uppercase [&_[cmdk-group-heading]]:tracking-widest [&_[cmdk-group-heading]]:text-gray-400"
+          >
+            {commands
+              .filter((command) => command.group === group)
+              .map((command) => (
+                <CommandItem
+                  key={command.id}
+                  value={command.id}
+                  keywords={[command.label, ...(command.keywords ?? [])]}
+                  onSelect={() => handleSelect(command)}
+                  className="rounded-none data-[selected=true]:bg-gray-100 data-[selected=true]:text-dark"
+                >
+                  <span className="truncate">{command.label}</span>
+                  {command.shortcut && (
+                    <CommandShortcut className="text-gray-400">{command.shortcut}</CommandShortcut>
+                  )}
+                </CommandItem>
+              ))}
+          </CommandGroup>
+        ))}
+      </CommandList>
+    </CommandDialog>
+  );
+}
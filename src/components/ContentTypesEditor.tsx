@@ -0,0 +1,203 @@
+import { useState } from 'react';
+import { moveId } from '@/lib/store';
+import { slugify } from '@/lib/slug';
+import {
+  BADGE_CLASSES,
+  BADGE_COLORS,
+  RENDERERS,
+  RENDERER_LABELS,
+  countByType,
+  newTypeDefinition
+} from '@/lib/contentTypes';
+import type { BadgeColorValue, ContentItem, ContentTypeDefinition, TypeRendererValue } from '@/types';
+
+interface ContentTypesEditorProps {
+  types: ContentTypeDefinition[];
+  // Ids already saved in settings; pieces may reference them, so they are fixed
+  savedIds: string[];
+  items: ContentItem[];
+  onChange: (types: ContentTypeDefinition[]) => void;
+}
+
+export default function ContentTypesEditor({ types, savedIds, items, onChange }: ContentTypesEditorProps) {
+  const [newLabel, setNewLabel] = useState('');
+  // Added types keep the row key they were created with while their id
+  // follows the name; the others are keyed by their fixed id
+  const [rowKeys, setRowKeys] = useState<Record<string, string>>({});
+  const rowKey = (type: ContentTypeDefinition) => rowKeys[type.id] ?? `id:${type.id}`;
+
+  // Ids stay unique: a name another type already uses gets a number
+  const freeId = (label: string, selfId: string) => {
+    let id = label;
+    for (let n = 2; types.some((type) => type.id !== selfId && type.id === id); n++) id = `${label} ${n}`;
+    return id;
+  };
+
+  const update = (id: string, changes: Partial<ContentTypeDefinition>) => {
+    // Unsaved types are still free to follow their name, unless it is empty
+    const label = changes.label?.trim();
+    const nextId = label && !savedIds.includes(id) ? freeId(label, id) : id;
+    if (nextId !== id) {
+      setRowKeys((prev) => {
+        const { [id]: key = `id:${id}`, ...rest } = prev;
+        return { ...rest, [nextId]: key };
+      });
+    }
+    onChange(types.map((type) => (type.id === id ? { ...type, ...changes, id: nextId } : type)));
+  };
+
+  // navOrder mirrors the list position
+  const move = (id: string, toIndex: number) => {
+    const order = moveId(types.map((type) => type.id), id, toIndex);
+    onChange(order.map((typeId, navOrder) => ({ ...types.find((t) => t.id === typeId)!, navOrder })));
+  };
+
+  const handleAdd = () => {
+    const label = newLabel.trim();
+    if (!label || types.some((type) => type.id === label)) return;
+    const type = newTypeDefinition(label, types);
+    setRowKeys((prev) => ({ ...prev, [type.id]: crypto.randomUUID() }));
+    onChange([...types, type]);
+    setNewLabel('');
+  };
+
+  return (
+    <div>
+      <label className="block text-[10px] uppercase tracking-widest text-muted mb-2">
+        Content Types
+      </label>
+      <div className="space-y-3">
+        {types.map((type, index) => {
+          const inUse = countByType(items, type.id);
+          return (
+            <div key={rowKey(type)} className="p-4 bg-white border border-gray-200 space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <input
+                  type="text"
+                  value={type.label}
+                  onChange={(e) => update(type.id, { label: e.target.value })}
+                  placeholder="Name"
+                  aria-label="Name"
+                  className="w-full border border-gray-200 p-3 outline-none focus:border-black font-serif"
+                />
+                <input
+                  type="text"
+                  value={type.plural}
+                  onChange={(e) => update(type.id, { plural: e.target.value })}
+                  placeholder="Plural"
+                  aria-label="Plural"
+                  className="w-full border border-gray-200 p-3 outline-none focus:border-black font-serif"
+                />
+                <div className="flex">
+                  <span className="p-3 bg-gray-50 border border-r-0 border-gray-200 text-muted font-mono text-sm">/</span>
+                  <input
+                    type="text"
+                    value={type.path}
+                    onChange={(e) => update(type.id, { path: e.target.value })}
+                    onBlur={() => update(type.id, { path: slugify(type.path) })}
+                    aria-label="URL"
+                    className="flex-1 min-w-0 border border-gray-200 p-3 outline-none focus:border-black font-mono text-sm"
+                  />
+                </div>
+              </div>
+              <div className="flex flex-wrap items-center gap-4 text-xs">
+                <select
+                  value={type.badge}
+                  onChange={(e) => update(type.id, { badge: e.target.value as BadgeColorValue })}
+                  aria-label="Badge colour"
+                  className={`px-2 py-1 font-bold uppercase tracking-tighter text-[10px] ${BADGE_CLASSES[type.badge]}`}
+                >
+                  {BADGE_COLORS.map((color) => (
+                    <option key={color} value={color}>{color}</option>
+                  ))}
+                </select>
+                <select
+                  value={type.renderer}
+                  onChange={(e) => update(type.id, { renderer: e.target.value as TypeRendererValue })}
+                  aria-label="Layout"
+                  className="border border-gray-200 px-2 py-1"
+                >
+                  {RENDERERS.map((renderer) => (
+                    <option key={renderer} value={renderer}>{RENDERER_LABELS[renderer]}</option>
+                  ))}
+                </select>
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={type.hasTitle}
+                    onChange={(e) => update(type.id, { hasTitle: e.target.checked })}
+                  />
+                  <span>Title</span>
+                </label>
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={type.hasExcerpt}
+                    onChange={(e) => update(type.id, { hasExcerpt: e.target.checked })}
+                  />
+                  <span>Excerpt</span>
+                </label>
+                <div className="flex-1" />
+                <span className="text-muted">
+                  {inUse} {inUse === 1 ? 'piece' : 'pieces'}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => move(type.id, index - 1)}
+                  disabled={index === 0}
+                  aria-label="Move up in navigation"
+                  className="px-2 hover:text-accent disabled:opacity-30"
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  onClick={() => move(type.id, index + 1)}
+                  disabled={index === types.length - 1}
+                  aria-label="Move down in navigation"
+                  className="px-2 hover:text-accent disabled:opacity-30"
+                >
+                  ↓
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onChange(types.filter((t) => t.id !== type.id))}
+                  disabled={inUse > 0 || types.length === 1}
+                  title={inUse > 0 ? 'Move or delete its pieces first' : undefined}
+                  className="text-[10px] uppercase font-bold tracking-widest text-red-400 hover:text-red-600 disabled:opacity-30"
+                >
+                  Remove
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex mt-3">
+        <input
+          type="text"
+          value={newLabel}
+          onChange={(e) => setNewLabel(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleAdd();
+            }
+          }}
+          placeholder="Essay, Haiku, Fragment..."
+          className="flex-1 bg-white border border-gray-200 p-3 outline-none focus:border-black font-serif"
+        />
+        <button
+          type="button"
+          onClick={handleAdd}
+          className="px-6 border border-l-0 border-gray-200 text-[10px] uppercase font-bold tracking-widest hover:text-accent"
+        >
+          + Add Type
+        </button>
+      </div>
+      <p className="text-[10px] text-muted mt-2">
+        The order sets the navigation menu. Pieces store the name a type had when it was first saved; renaming it later only changes how it is shown.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import { useState } from 'react';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { formatDate } from '@/lib/dates';
+
+interface DatePickerProps {
+  // ISO timestamp
+  value?: string;
+  onChange: (value: string | undefined) => void;
+  placeholder?: string;
+}
+
+// Calendar day as an ISO timestamp at noon UTC, matching lib/dates.ts
+const toIso = (day: Date) =>
+  new Date(Date.UTC(day.getFullYear(), day.getMonth(), day.getDate(), 12)).toISOString();
+
+export default function DatePicker({ value, onChange, placeholder = 'Pick a date' }: DatePickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const selected = value ? new Date(value) : undefined;
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <div className="flex">
+        <PopoverTrigger asChild>
+          <button
+            type="button"
+            className={`flex-1 text-left bg-white border border-gray-200 p-4 outline-none focus:border-black font-serif text-lg ${
+              value ? '' : 'text-muted'
+            }`}
+          >
+            {value ? formatDate(value) : placeholder}
+          </button>
+        </PopoverTrigger>
+        {value && (
+          <button
+            type="button"
+            onClick={() => onChange(undefined)}
+            aria-label="Clear date"
+            className="px-4 border border-l-0 border-gray-200 text-muted hover:text-red-600"
+          >
+            ×
+          </button>
+        )}
+      </div>
+      <PopoverContent align="start" className="w-auto p-0 bg-white border-gray-200 rounded-none">
+        <Calendar
+          mode="single"
+          captionLayout="dropdown"
+          selected={selected}
+          defaultMonth={selected}
+          onSelect={(day) => {
+            onChange(day ? toIso(day) : undefined);
+            setIsOpen(false);
+          }}
+        />
+      </PopoverContent>
+    </Popover>
+  );
+}
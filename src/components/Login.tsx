@@ -1,10 +1,12 @@
 import { useState, useEffect } from "react";
 
 interface LoginProps {
-  onLogin: (password: string) => Promise<boolean>;
+  onLogin: (email: string, password: string) => Promise<boolean>;
+  authError?: string | null;
 }
 
-export default function Login({ onLogin }: LoginProps) {
+export default function Login({ onLogin, authError }: LoginProps) {
+  const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [error, setError] = useState(false);
   const [attempts, setAttempts] = useState(0);
@@ -32,7 +34,7 @@ export default function Login({ onLogin }: LoginProps) {
     if (isLocked || isLoading) return;
 
     setIsLoading(true);
-    const success = await onLogin(password);
+    const success = await onLogin(email, password);
     setIsLoading(false);
 
     if (success) {
@@ -67,13 +69,26 @@ export default function Login({ onLogin }: LoginProps) {
         </header>
 
         <form onSubmit={handleSubmit} className="space-y-6">
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder={isLocked ? "System Locked" : "Author Email"}
+            disabled={isLocked}
+            autoComplete="username"
+            className={`w-full bg-transparent border-b ${
+              isLocked ? "border-gray-100 text-gray-300" : "border-gray-200"
+            } focus:border-black text-center py-3 font-serif outline-none transition-colors placeholder:text-gray-300 placeholder:italic`}
+            autoFocus
+          />
           <div className="relative">
             <input
               type="password"
               value={password}
               onChange={(e) => setPassword(e.target.value)}
-              placeholder={isLocked ? "System Locked" : "Authorization Key"}
+              placeholder={isLocked ? "System Locked" : "Password"}
               disabled={isLocked}
+              autoComplete="current-password"
               className={`w-full bg-transparent border-b ${
                 error
                   ? "border-red-500"
@@ -81,11 +96,10 @@ export default function Login({ onLogin }: LoginProps) {
                     ? "border-gray-100 text-gray-300"
                     : "border-gray-200"
               } focus:border-black text-center py-3 font-serif outline-none transition-colors placeholder:text-gray-300 placeholder:italic`}
-              autoFocus
             />
             {error && !isLocked && (
               <p className="absolute -bottom-6 left-0 w-full text-[10px] uppercase tracking-widest text-red-500">
-                Invalid Credentials ({MAX_ATTEMPTS - attempts} attempts left)
+                {authError || "Invalid Credentials"} ({MAX_ATTEMPTS - attempts} attempts left)
               </p>
             )}
             {isLocked && (
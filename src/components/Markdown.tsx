@@ -0,0 +1,187 @@
+import type { MouseEvent, ReactNode } from 'react';
+import { isInternalHref, parseMarkdown, parseVerse } from '@/lib/markdown';
+import type { Block, Footnote, Inline, VerseLine } from '@/lib/markdown';
+
+interface MarkdownProps {
+  source: string;
+  className?: string;
+  // Same-site links are handed to the router instead of reloading the page
+  onInternalLink?: (href: string) => void;
+  // Phrasing content only, e.g. inside a quote's <blockquote>
+  inline?: boolean;
+}
+
+interface VerseProps extends MarkdownProps {
+  lineNumbers?: boolean;
+}
+
+// Wrapped lines hang by this much, so a continuation never reads as a new line
+const HANGING_INDENT = '2em';
+
+// Footnote anchors scroll in place so they never touch the route
+const scrollTo = (id: string) => (e: MouseEvent) => {
+  e.preventDefault();
+  document.getElementById(id)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+};
+
+function renderInline(nodes: Inline[], onInternalLink?: (href: string) => void): ReactNode[] {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'break':
+        return <br key={index} />;
+      case 'em':
+        return <em key={index}>{renderInline(node.children, onInternalLink)}</em>;
+      case 'strong':
+        return <strong key={index} className="font-bold text-dark">{renderInline(node.children, onInternalLink)}</strong>;
+      case 'footnoteRef':
+        return (
+          <sup key={index} id={`fnref-${node.number}`}>
+            <a
+              href={`#fn-${node.number}`}
+              onClick={scrollTo(`fn-${node.number}`)}
+              className="font-sans text-xs text-accent no-underline px-0.5"
+            >
+              {node.number}
+            </a>
+          </sup>
+        );
+      case 'link': {
+        const internal = isInternalHref(node.href);
+        const external = !internal && !node.href.startsWith('#');
+        return (
+          <a
+            key={index}
+            href={node.href}
+            onClick={internal && onInternalLink ? (e) => {
+              e.preventDefault();
+              onInternalLink(node.href);
+            } : undefined}
+            target={external ? '_blank' : undefined}
+            rel={external ? 'noopener noreferrer' : undefined}
+            className="text-dark underline decoration-accent underline-offset-4 hover:text-accent"
+          >
+            {renderInline(node.children, onInternalLink)}
+          </a>
+        );
+      }
+    }
+  });
+}
+
+function renderBlock(block: Block, key: number, onInternalLink?: (href: string) => void): ReactNode {
+  switch (block.type) {
+    case 'paragraph':
+      return <p key={key} className="mb-8">{renderInline(block.children, onInternalLink)}</p>;
+    case 'blockquote':
+      return (
+        <blockquote key={key} className="border-l-2 border-accent pl-6 my-12 italic text-gray-500">
+          {block.blocks.map((child, index) => renderBlock(child, index, onInternalLink))}
+        </blockquote>
+      );
+    case 'sceneBreak':
+      return (
+        <div key={key} role="separator" className="my-16 text-center font-serif text-accent tracking-[1em]">
+          ***
+        </div>
+      );
+  }
+}
+
+// Paragraphs (epigraphs included) joined by line breaks; scene breaks and
+// footnote references have no place in a single run of text
+function inlineContent(blocks: Block[]): Inline[] {
+  const withoutFootnotes = (nodes: Inline[]): Inline[] =>
+    nodes.flatMap((node): Inline[] => {
+      if (node.type === 'footnoteRef') return [];
+      return 'children' in node ? [{ ...node, children: withoutFootnotes(node.children) }] : [node];
+    });
+  const runs = blocks.flatMap((block): Inline[][] => {
+    if (block.type === 'paragraph') return [withoutFootnotes(block.children)];
+    if (block.type === 'blockquote') return [inlineContent(block.blocks)];
+    return [];
+  });
+  return runs.flatMap((run, index) => (index > 0 ? [{ type: 'break' as const }, ...run] : run));
+}
+
+function renderVerseLine(line: VerseLine, lineNumbers: boolean, onInternalLink?: (href: string) => void) {
+  return (
+    <div
+      key={line.number}
+      className="relative whitespace-pre-wrap"
+      style={{ paddingLeft: `calc(${line.indent}ch + ${HANGING_INDENT})`, textIndent: `-${HANGING_INDENT}` }}
+    >
+      {lineNumbers && line.number % 5 === 0 && (
+        <span
+          aria-hidden="true"
+          className="absolute -left-8 w-6 text-right font-sans text-xs text-muted select-none"
+          style={{ textIndent: 0 }}
+        >
+          {line.number}
+        </span>
+      )}
+      {renderInline(line.children, onInternalLink)}
+    </div>
+  );
+}
+
+function Footnotes({ footnotes, onInternalLink }: { footnotes: Footnote[]; onInternalLink?: (href: string) => void }) {
+  if (footnotes.length === 0) return null;
+  return (
+    <ol className="mt-16 pt-8 border-t border-gray-200 font-sans text-sm text-muted space-y-2 list-decimal pl-6">
+      {footnotes.map((footnote) => (
+        <li key={footnote.number} id={`fn-${footnote.number}`}>
+          {renderInline(footnote.children, onInternalLink)}{' '}
+          <a
+            href={`#fnref-${footnote.number}`}
+            onClick={scrollTo(`fnref-${footnote.number}`)}
+            aria-label="Back to text"
+            className="text-accent no-underline"
+          >
+            ↩
+          </a>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+/**
+ * Renders a body written in the dialect of lib/markdown.ts. Everything goes
+ * through React elements, so markup in the text can never become live HTML.
+ * Inline mode drops footnotes and renders no block wrappers.
+ */
+export default function Markdown({ source, className = '', onInternalLink, inline = false }: MarkdownProps) {
+  const { blocks, footnotes } = parseMarkdown(source);
+  if (inline) return <span className={className}>{renderInline(inlineContent(blocks), onInternalLink)}</span>;
+  return (
+    <div className={className}>
+      {blocks.map((block, index) => renderBlock(block, index, onInternalLink))}
+      <Footnotes footnotes={footnotes} onInternalLink={onInternalLink} />
+    </div>
+  );
+}
+
+/**
+ * Renders a poem line by line: stanzas stay apart, indentation and inner
+ * spacing are kept, and lines too long for the screen wrap with a hanging
+ * indent.
+ */
+export function Verse({ source, lineNumbers = false, className = '', onInternalLink }: VerseProps) {
+  const { blocks, footnotes } = parseVerse(source);
+  return (
+    <div className={className}>
+      {blocks.map((block, index) =>
+        block.type === 'stanza' ? (
+          <div key={index} className="mb-10">
+            {block.lines.map((line) => renderVerseLine(line, lineNumbers, onInternalLink))}
+          </div>
+        ) : (
+          renderBlock(block, index, onInternalLink)
+        )
+      )}
+      <Footnotes footnotes={footnotes} onInternalLink={onInternalLink} />
+    </div>
+  );
+}
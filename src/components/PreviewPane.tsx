@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { createPortal } from 'react-dom';
+import type { ReactNode, SyntheticEvent } from 'react';
+import { stampDates } from '@/lib/dates';
+import type { ContentItem } from '@/types';
+
+export type PreviewView = 'detail' | 'card' | 'list';
+
+const VIEW_LABELS: Record<PreviewView, string> = {
+  detail: 'Page',
+  card: 'Home Card',
+  list: 'List'
+};
+
+const VIEWS = Object.keys(VIEW_LABELS) as PreviewView[];
+
+type Device = 'desktop' | 'mobile';
+
+const DEVICE_WIDTHS: Record<Device, string> = {
+  desktop: '100%',
+  mobile: '375px'
+};
+
+interface PreviewPaneProps {
+  item: ContentItem;
+  render: (item: ContentItem, view: PreviewView) => ReactNode;
+}
+
+/**
+ * Shows unsaved form data through the public components. They render inside
+ * an iframe so the mobile width triggers the site's real breakpoints.
+ */
+export default function PreviewPane({ item, render }: PreviewPaneProps) {
+  const [view, setView] = useState<PreviewView>('detail');
+  const [device, setDevice] = useState<Device>('desktop');
+  const [frameBody, setFrameBody] = useState<HTMLElement | null>(null);
+  // Dates the form leaves empty are shown as a save right now would set them
+  const [openedAt] = useState(() => new Date());
+
+  const handleFrameLoad = (e: SyntheticEvent<HTMLIFrameElement>) => {
+    const frameDocument = e.currentTarget.contentDocument;
+    if (!frameDocument) return;
+    document.head.querySelectorAll('style, link[rel="stylesheet"]').forEach((node) => {
+      frameDocument.head.appendChild(node.cloneNode(true));
+    });
+    setFrameBody(frameDocument.body);
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        {VIEWS.map((option) => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => setView(option)}
+            className={`px-4 py-2 text-[10px] font-bold uppercase tracking-widest border transition-colors ${
+              view === option ? 'bg-black text-white border-black' : 'border-gray-200 hover:border-black'
+            }`}
+          >
+            {VIEW_LABELS[option]}
+          </button>
+        ))}
+        <div className="flex-1" />
+        {(['desktop', 'mobile'] as Device[]).map((option) => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => setDevice(option)}
+            className={`px-4 py-2 text-[10px] font-bold uppercase tracking-widest border transition-colors ${
+              device === option ? 'bg-black text-white border-black' : 'border-gray-200 hover:border-black'
+            }`}
+          >
+            {option}
+          </button>
+        ))}
+      </div>
+      <div className="bg-gray-100 border border-gray-200 p-4">
+        <iframe
+          title="Preview"
+          srcDoc="<!DOCTYPE html><html><head></head><body></body></html>"
+          onLoad={handleFrameLoad}
+          style={{ width: DEVICE_WIDTHS[device] }}
+          className="block mx-auto h-[75vh] bg-paper border-0 shadow-sm transition-[width] duration-300"
+        />
+        {frameBody && createPortal(
+          <div className="bg-paper min-h-screen relative overflow-x-hidden">
+            {render(stampDates(item, undefined, openedAt), view)}
+          </div>,
+          frameBody
+        )}
+      </div>
+      <p className="text-[10px] text-muted mt-2">
+        Unsaved changes, as readers will see them. Links and buttons do nothing here.
+      </p>
+    </div>
+  );
+}
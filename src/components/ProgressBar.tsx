@@ -0,0 +1,22 @@
+interface ProgressBarProps {
+  label: string;
+  done: number;
+  total: number;
+}
+
+export default function ProgressBar({ label, done, total }: ProgressBarProps) {
+  return (
+    <div role="status">
+      <div className="flex justify-between text-[10px] uppercase tracking-widest text-muted mb-1">
+        <span>{label}</span>
+        <span>{done} / {total}</span>
+      </div>
+      <div className="h-1 bg-gray-100">
+        <div
+          className="h-1 bg-black transition-[width]"
+          style={{ width: `${total ? (done / total) * 100 : 100}%` }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import { useState, useEffect } from 'react';
+import { diffLines } from '@/lib/diff';
+import type { Revision } from '@/types';
+
+interface RevisionHistoryProps {
+  itemId: string;
+  // Current editor content the revisions are compared against
+  currentBody: string;
+  // Changes whenever a new revision may have been recorded
+  refreshKey: unknown;
+  canRestore: boolean;
+  onLoadRevisions: (itemId: string) => Promise<Revision[]>;
+  onRestore: (revision: Revision) => Promise<void>;
+}
+
+const formatTimestamp = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+export default function RevisionHistory({
+  itemId,
+  currentBody,
+  refreshKey,
+  canRestore,
+  onLoadRevisions,
+  onRestore
+}: RevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<Revision[] | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    onLoadRevisions(itemId)
+      .then((loaded) => {
+        if (!cancelled) setRevisions(loaded);
+      })
+      .catch((e) => {
+        console.error('Error loading revisions:', e);
+        if (!cancelled) setRevisions([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [itemId, refreshKey, onLoadRevisions]);
+
+  const selected = revisions?.find((r) => r.id === selectedId) ?? null;
+
+  const handleRestore = async (revision: Revision) => {
+    setIsRestoring(true);
+    await onRestore(revision);
+    setIsRestoring(false);
+    setSelectedId(null);
+  };
+
+  return (
+    <section className="mt-16 border-t border-gray-200 pt-8">
+      <h3 className="text-[10px] uppercase tracking-[0.3em] text-muted mb-6">
+        History {revisions && `(${revisions.length} revisions)`}
+      </h3>
+
+      {revisions === null ? (
+        <p className="font-serif italic text-muted">Loading history...</p>
+      ) : revisions.length === 0 ? (
+        <p className="font-serif italic text-muted">No revisions yet. One is recorded on every save.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-[240px_1fr] gap-6">
+          <ul className="space-y-2">
+            {revisions.map((revision) => (
+              <li key={revision.id}>
+                <button
+                  onClick={() => setSelectedId(revision.id === selectedId ? null : revision.id)}
+                  className={`w-full text-left p-3 border transition-all ${
+                    revision.id === selectedId ? 'border-black bg-white' : 'border-gray-200 hover:border-black'
+                  }`}
+                >
+                  <span className="block font-sans text-xs">{formatTimestamp(revision.createdAt)}</span>
+                  <span className="block text-[10px] uppercase tracking-widest text-muted">
+                    {revision.author || 'Unknown author'}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {selected ? (
+            <div>
+              <div className="flex items-center justify-between mb-4">
+                <p className="text-[10px] uppercase tracking-widest text-muted">
+                  Changes from this revision to the current text
+                </p>
+                {canRestore && (
+                  <button
+                    onClick={() => handleRestore(selected)}
+                    disabled={isRestoring}
+                    className="font-sans text-xs font-bold uppercase tracking-widest border border-black px-4 py-2 hover:bg-black hover:text-white transition-all"
+                  >
+                    {isRestoring ? 'Restoring...' : 'Restore'}
+                  </button>
+                )}
+              </div>
+              {selected.title && (
+                <p className="font-serif text-xl mb-4">{selected.title}</p>
+              )}
+              <pre className="bg-white border border-gray-200 p-4 font-mono text-xs leading-relaxed whitespace-pre-wrap overflow-x-auto">
+                {diffLines(selected.body, currentBody).map((line, idx) => (
+                  <div
+                    key={idx}
+                    className={
+                      line.type === 'added'
+                        ? 'bg-green-50 text-green-800'
+                        : line.type === 'removed'
+                        ? 'bg-red-50 text-red-800 line-through'
+                        : 'text-gray-600'
+                    }
+                  >
+                    {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                    {line.text || ' '}
+                  </div>
+                ))}
+              </pre>
+            </div>
+          ) : (
+            <p className="font-serif italic text-muted self-center">
+              Select a revision to compare it with the current text.
+            </p>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,117 @@
+import { useState } from 'react';
+import { addTag, normalizeTag, tagSlug } from '@/lib/tags';
+import type { TagCount } from '@/lib/tags';
+
+interface TagInputProps {
+  tags: string[];
+  // Tags already used across the archive, offered as suggestions
+  suggestions: TagCount[];
+  onChange: (tags: string[]) => void;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+export default function TagInput({ tags, suggestions, onChange }: TagInputProps) {
+  const [query, setQuery] = useState('');
+  // -1 while no suggestion is chosen, so Enter adds the typed text as is
+  const [highlighted, setHighlighted] = useState(-1);
+  const [isOpen, setIsOpen] = useState(false);
+
+  const needle = normalizeTag(query);
+  const taken = new Set(tags.map(tagSlug));
+  const matches = suggestions
+    .filter((s) => !taken.has(s.slug) && s.tag.includes(needle))
+    .slice(0, MAX_SUGGESTIONS);
+
+  const commit = (tag: string) => {
+    onChange(addTag(tags, tag));
+    setQuery('');
+    setHighlighted(-1);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      const suggestion = isOpen ? matches[highlighted] : undefined;
+      if (suggestion) commit(suggestion.tag);
+      else if (needle) commit(needle);
+    } else if (e.key === 'Backspace' && !query && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    } else if (e.key === 'ArrowDown' && matches.length > 0) {
+      e.preventDefault();
+      setIsOpen(true);
+      setHighlighted((i) => (isOpen ? (i + 1) % matches.length : 0));
+    } else if (e.key === 'ArrowUp' && matches.length > 0) {
+      e.preventDefault();
+      setHighlighted((i) => (i <= 0 ? matches.length - 1 : i - 1));
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+      setHighlighted(-1);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-2 bg-white border border-gray-200 p-3 focus-within:border-black">
+        {tags.map((tag) => (
+          <span
+            key={tag}
+            className="flex items-center space-x-2 bg-gray-100 px-3 py-1 font-sans text-xs tracking-wide"
+          >
+            <span>#{tag}</span>
+            <button
+              type="button"
+              onClick={() => onChange(tags.filter((t) => t !== tag))}
+              className="text-muted hover:text-red-600"
+              aria-label={`Remove tag ${tag}`}
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setHighlighted(-1);
+            setIsOpen(true);
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsOpen(true)}
+          onBlur={() => {
+            setIsOpen(false);
+            if (needle) commit(needle);
+          }}
+          placeholder={tags.length === 0 ? 'winter, loss, city…' : ''}
+          className="flex-1 min-w-[8rem] p-1 outline-none font-sans text-sm bg-transparent"
+          role="combobox"
+          aria-expanded={isOpen && matches.length > 0}
+          aria-autocomplete="list"
+        />
+      </div>
+      {isOpen && matches.length > 0 && (
+        <ul role="listbox" className="absolute z-10 left-0 right-0 mt-1 bg-white border border-gray-200 shadow-sm">
+          {matches.map((s, i) => (
+            <li
+              key={s.slug}
+              role="option"
+              aria-selected={i === highlighted}
+              // mousedown fires before the input's blur
+              onMouseDown={(e) => {
+                e.preventDefault();
+                commit(s.tag);
+              }}
+              className={`flex justify-between px-4 py-2 cursor-pointer font-sans text-sm ${
+                i === highlighted ? 'bg-gray-100' : 'hover:bg-gray-50'
+              }`}
+            >
+              <span>#{s.tag}</span>
+              <span className="text-xs text-muted">{s.count}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { daysLeft } from '@/lib/trash';
+import { plainExcerpt } from '@/lib/markdown';
+import type { ContentItem } from '@/types';
+
+interface TrashTabProps {
+  items: ContentItem[];
+  retentionDays: number;
+  canManage: boolean;
+  onRestore: (id: string) => Promise<boolean>;
+  onPurge: (id: string) => Promise<boolean>;
+}
+
+export default function TrashTab({ items, retentionDays, canManage, onRestore, onPurge }: TrashTabProps) {
+  const [showPurgeConfirm, setShowPurgeConfirm] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  // Captured once so the countdown does not drift within a render
+  const [now] = useState(() => Date.now());
+
+  const handle = async (action: (id: string) => Promise<boolean>, id: string, failure: string) => {
+    setErrorMessage(null);
+    if (!(await action(id))) setErrorMessage(failure);
+  };
+
+  const handlePurge = async (id: string) => {
+    setShowPurgeConfirm(null);
+    await handle(onPurge, id, 'Failed to delete item permanently. Please try again.');
+  };
+
+  return (
+    <div>
+      <p className="text-sm text-muted mb-8">
+        Deleted pieces are hidden from the site and kept here
+        {retentionDays > 0 ? ` for ${retentionDays} days before being removed permanently.` : ' until you remove them.'}
+      </p>
+
+      {errorMessage && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 text-red-800 text-sm">
+          {errorMessage}
+        </div>
+      )}
+
+      {items.length === 0 ? (
+        <div className="p-12 text-center border border-dashed border-gray-200 font-serif italic text-muted">
+          The trash is empty.
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {items.map((item) => (
+            <div
+              key={item.id}
+              className="flex items-center justify-between p-5 border border-dashed border-gray-300 bg-white/50"
+            >
+              <div className="flex-1 min-w-0">
+                <h4 className="font-serif text-lg leading-none mb-1 truncate text-muted">
+                  {item.title || plainExcerpt(item.body, 40)}
+                </h4>
+                <p className="text-[10px] text-muted uppercase tracking-widest">
+                  {item.type} • Deleted {new Date(item.deletedAt!).toLocaleDateString('en-US', {
+                    year: 'numeric',
+                    month: 'short',
+                    day: 'numeric'
+                  })}
+                  {retentionDays > 0 && ` • ${daysLeft(item, retentionDays, now)} days left`}
+                </p>
+              </div>
+              {canManage && (
+                <div className="flex space-x-3">
+                  <button
+                    onClick={() => handle(onRestore, item.id, 'Failed to restore item. Please try again.')}
+                    className="text-[10px] uppercase font-bold tracking-widest hover:text-accent px-3 py-2"
+                  >
+                    Restore
+                  </button>
+                  <button
+                    onClick={() => setShowPurgeConfirm(item.id)}
+                    className="text-[10px] uppercase font-bold tracking-widest text-red-400 hover:text-red-600 px-3 py-2"
+                  >
+                    Delete Forever
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Purge Confirmation Modal */}
+      {showPurgeConfirm && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-white p-8 max-w-md mx-4">
+            <h3 className="font-serif text-2xl mb-4">Delete Forever?</h3>
+            <p className="text-muted mb-6">
+              This action cannot be undone. The content will be permanently removed.
+            </p>
+            <div className="flex space-x-4">
+              <button
+                onClick={() => setShowPurgeConfirm(null)}
+                className="flex-1 font-sans text-xs font-bold uppercase tracking-widest border border-gray-300 px-6 py-3 hover:border-black transition-all"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => handlePurge(showPurgeConfirm)}
+                className="flex-1 font-sans text-xs font-bold uppercase tracking-widest bg-red-500 text-white px-6 py-3 hover:bg-red-600 transition-all"
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
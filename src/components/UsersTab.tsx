@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import { useUsers } from '@/hooks/useUsers';
+import { ROLE_LABELS } from '@/lib/permissions';
+import { Role } from '@/types';
+import type { RoleValue } from '@/types';
+
+interface UsersTabProps {
+  currentUid: string | null;
+}
+
+const ROLES = Object.values(Role);
+
+export default function UsersTab({ currentUid }: UsersTabProps) {
+  const { users, invites, isLoading, error, invite, revoke, changeRole, remove } = useUsers(currentUid);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<RoleValue>(Role.CONTRIBUTOR);
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+    if (await invite(email, role)) setEmail('');
+  };
+
+  if (isLoading) {
+    return <div className="p-12 text-center font-serif italic text-muted">Loading users...</div>;
+  }
+
+  return (
+    <div className="space-y-12">
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 text-red-800 text-sm">
+          {error}
+        </div>
+      )}
+
+      {/* Invite */}
+      <form onSubmit={handleInvite} className="grid grid-cols-1 md:grid-cols-[1fr_200px_auto] gap-4 items-end">
+        <div>
+          <label className="block text-[10px] uppercase tracking-widest text-muted mb-2">
+            Invite by Email
+          </label>
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="writer@example.com"
+            className="w-full bg-white border border-gray-200 p-4 outline-none focus:border-black font-serif"
+          />
+        </div>
+        <div>
+          <label className="block text-[10px] uppercase tracking-widest text-muted mb-2">
+            Role
+          </label>
+          <select
+            value={role}
+            onChange={(e) => setRole(e.target.value as RoleValue)}
+            className="w-full bg-white border border-gray-200 p-4 outline-none focus:border-black font-serif"
+          >
+            {ROLES.map((r) => (
+              <option key={r} value={r}>{ROLE_LABELS[r]}</option>
+            ))}
+          </select>
+        </div>
+        <button
+          type="submit"
+          className="font-sans text-xs font-bold uppercase tracking-widest bg-black text-white px-6 py-4 hover:bg-gray-800 transition-all"
+        >
+          Invite
+        </button>
+      </form>
+      <p className="text-[10px] text-muted -mt-8">
+        Add their account in the Firebase console (Authentication, Add user) and share the password.
+        At their first sign-in the CMS emails them a verification link; they get the role once the address is verified.
+      </p>
+
+      {/* Members */}
+      <div>
+        <h3 className="text-[10px] uppercase tracking-[0.3em] text-muted mb-6">
+          Members ({users.length})
+        </h3>
+        <div className="space-y-3">
+          {users.map((user) => (
+            <div key={user.uid} className="flex items-center justify-between p-5 border border-gray-200 bg-white">
+              <div className="min-w-0">
+                <h4 className="font-serif text-lg leading-none mb-1 truncate">{user.email}</h4>
+                <p className="text-[10px] text-muted uppercase tracking-widest">
+                  UID: {user.uid}{user.uid === currentUid && ' • You'}
+                </p>
+              </div>
+              <div className="flex items-center space-x-3">
+                <select
+                  value={user.role}
+                  disabled={user.uid === currentUid}
+                  onChange={(e) => changeRole(user, e.target.value as RoleValue)}
+                  className="bg-white border border-gray-200 px-3 py-2 text-xs uppercase tracking-widest outline-none focus:border-black disabled:text-muted"
+                >
+                  {ROLES.map((r) => (
+                    <option key={r} value={r}>{ROLE_LABELS[r]}</option>
+                  ))}
+                </select>
+                {user.uid !== currentUid && (
+                  <button
+                    onClick={() => remove(user.uid)}
+                    className="text-[10px] uppercase font-bold tracking-widest text-red-400 hover:text-red-600 px-3 py-2"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Pending invites */}
+      {invites.length > 0 && (
+        <div>
+          <h3 className="text-[10px] uppercase tracking-[0.3em] text-muted mb-6">
+            Pending Invites ({invites.length})
+          </h3>
+          <div className="space-y-3">
+            {invites.map((pending) => (
+              <div key={pending.email} className="flex items-center justify-between p-5 border border-dashed border-gray-200">
+                <div>
+                  <h4 className="font-serif text-lg leading-none mb-1">{pending.email}</h4>
+                  <p className="text-[10px] text-muted uppercase tracking-widest">{ROLE_LABELS[pending.role]}</p>
+                </div>
+                <button
+                  onClick={() => revoke(pending.email)}
+                  className="text-[10px] uppercase font-bold tracking-widest text-red-400 hover:text-red-600 px-3 py-2"
+                >
+                  Revoke
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,45 +1,112 @@
 import { useState, useEffect, useCallback } from 'react';
+import { auth, isFirebaseConfigured } from '@/lib/firebase';
+import { onAuthStateChanged, sendEmailVerification, signInWithEmailAndPassword, signOut } from 'firebase/auth';
+import type { User } from 'firebase/auth';
+import { resolveRole } from '@/lib/users';
+import { hasPermission } from '@/lib/permissions';
+import type { Permission } from '@/lib/permissions';
+import { Role } from '@/types';
+import type { RoleValue } from '@/types';
 
 interface UseAuthReturn {
+  user: User | null;
+  role: RoleValue | null;
   isAuthenticated: boolean;
   isLoading: boolean;
-  login: (password: string) => boolean;
-  logout: () => void;
+  error: string | null;
+  can: (permission: Permission) => boolean;
+  login: (email: string, password: string) => Promise<boolean>;
+  logout: () => Promise<void>;
 }
 
-// Admin password - in production, set VITE_ADMIN_PASSWORD in Netlify environment variables
-const ADMIN_PASSWORD = import.meta.env.VITE_ADMIN_PASSWORD || 'jacopo';
+// Without Firebase, edits only reach this browser's storage; the CMS is left
+// open to a local owner during development and closed in production builds
+const LOCAL_ROLE: RoleValue | null = !isFirebaseConfigured && import.meta.env.DEV ? Role.OWNER : null;
+
+// Both the auth listener and login() resolve the role on sign-in; sharing
+// the lookup keeps a first sign-in from claiming its invite twice
+const pendingRoles = new Map<string, Promise<RoleValue | null>>();
+
+async function lookUpRole(user: User): Promise<RoleValue | null> {
+  try {
+    return await resolveRole(user);
+  } catch (e) {
+    console.warn('Role lookup failed:', e);
+    return null;
+  }
+}
+
+function roleOf(user: User): Promise<RoleValue | null> {
+  if (user.isAnonymous) return Promise.resolve(null);
+  let pending = pendingRoles.get(user.uid);
+  if (!pending) {
+    pending = lookUpRole(user).finally(() => pendingRoles.delete(user.uid));
+    pendingRoles.set(user.uid, pending);
+  }
+  return pending;
+}
 
 export function useAuth(): UseAuthReturn {
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
-  const [isLoading, setIsLoading] = useState(true);
+  const [user, setUser] = useState<User | null>(null);
+  const [role, setRole] = useState<RoleValue | null>(LOCAL_ROLE);
+  const [isLoading, setIsLoading] = useState(isFirebaseConfigured);
+  const [error, setError] = useState<string | null>(
+    isFirebaseConfigured || LOCAL_ROLE ? null : 'Author access requires Firebase Authentication.'
+  );
 
-  // Check authentication status on mount
+  // Follow the Firebase session; a user only counts as authenticated once a
+  // role has been found for them
   useEffect(() => {
-    const checkAuth = () => {
-      const sessionAuth = sessionStorage.getItem('cms_authenticated');
-      if (sessionAuth === 'true') {
-        setIsAuthenticated(true);
-      }
-      setIsLoading(false);
-    };
+    if (!isFirebaseConfigured) return;
 
-    checkAuth();
+    // A lookup finishing after a later sign-out or account switch is dropped
+    let latestEvent = 0;
+    return onAuthStateChanged(auth, async (nextUser) => {
+      const event = ++latestEvent;
+      const nextRole = nextUser ? await roleOf(nextUser) : null;
+      if (event !== latestEvent) return;
+      setUser(nextUser);
+      setRole(nextRole);
+      setIsLoading(false);
+    });
   }, []);
 
-  const login = useCallback((password: string): boolean => {
-    if (password === ADMIN_PASSWORD) {
-      setIsAuthenticated(true);
-      sessionStorage.setItem('cms_authenticated', 'true');
-      return true;
+  const login = useCallback(async (email: string, password: string): Promise<boolean> => {
+    if (!isFirebaseConfigured) return LOCAL_ROLE !== null;
+
+    setError(null);
+    try {
+      const credential = await signInWithEmailAndPassword(auth, email, password);
+      const nextRole = await roleOf(credential.user);
+      if (nextRole) {
+        setRole(nextRole);
+        return true;
+      }
+      // Invites only go to verified addresses; accounts created in the
+      // Firebase console start unverified
+      if (!credential.user.emailVerified) {
+        await sendEmailVerification(credential.user);
+        await signOut(auth);
+        setError('We sent a link to verify this email address. Open it, then sign in again.');
+        return false;
+      }
+      await signOut(auth);
+      setError('This account has not been invited to the CMS.');
+      return false;
+    } catch (e) {
+      console.warn('Sign-in failed:', e);
+      setError('Invalid email or password.');
+      return false;
     }
-    return false;
   }, []);
 
-  const logout = useCallback(() => {
-    setIsAuthenticated(false);
-    sessionStorage.removeItem('cms_authenticated');
+  const logout = useCallback(async () => {
+    if (!isFirebaseConfigured) return;
+    setRole(null);
+    await signOut(auth);
   }, []);
 
-  return { isAuthenticated, isLoading, login, logout };
+  const can = useCallback((permission: Permission) => hasPermission(role, permission), [role]);
+
+  return { user, role, isAuthenticated: role !== null, isLoading, error, can, login, logout };
 }
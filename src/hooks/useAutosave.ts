@@ -0,0 +1,28 @@
+import { useState, useEffect } from 'react';
+import { writeDraft } from '@/lib/drafts';
+import type { ContentItem } from '@/types';
+
+const AUTOSAVE_DELAY_MS = 1000;
+
+/**
+ * Writes the form to a local draft once typing pauses. Returns when the
+ * draft for `draftId` was last written, or null before the first write.
+ */
+export function useAutosave(
+  draftId: string | null,
+  form: Partial<ContentItem>,
+  enabled: boolean
+): string | null {
+  const [lastSaved, setLastSaved] = useState<{ draftId: string; savedAt: string } | null>(null);
+
+  useEffect(() => {
+    if (!draftId || !enabled) return;
+    const timer = setTimeout(() => {
+      const draft = writeDraft(draftId, form, new Date());
+      if (draft) setLastSaved({ draftId, savedAt: draft.savedAt });
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [draftId, form, enabled]);
+
+  return lastSaved?.draftId === draftId ? lastSaved.savedAt : null;
+}
@@ -1,16 +1,15 @@
-import { useState, useEffect, useCallback } from 'react';
-import { db, auth } from '@/lib/firebase';
-import { 
-  collection, 
-  getDocs, 
-  doc, 
-  getDoc, 
-  setDoc, 
-  deleteDoc
-} from 'firebase/firestore';
-import { onAuthStateChanged, signInAnonymously } from 'firebase/auth';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { createContentStore, isFirebaseConfigured, sortByContentOrder, StorageQuotaError } from '@/lib/store';
+import type { ContentStore } from '@/lib/store';
 import { ContentType } from '@/types';
-import type { ContentItem, SiteSettings, ContentMeta } from '@/types';
+import { isExpired, reinsert } from '@/lib/trash';
+import { migrateItemDates, stampDates } from '@/lib/dates';
+import { inBatches } from '@/lib/bulk';
+import type { BulkResult } from '@/lib/bulk';
+import { pendingChanges } from '@/lib/bundle';
+import { slugOf } from '@/lib/slug';
+import type { ImportPlan, ImportResult } from '@/lib/bundle';
+import type { ContentItem, SiteSettings, ContentMeta, Revision, Collection } from '@/types';
 
 // Default content to fall back to if fetch fails
 const DEFAULT_CONTENT: ContentItem[] = [
@@ -25,7 +24,7 @@ const DEFAULT_CONTENT: ContentItem[] = [
     title: 'This Beginning May Have Always Meant This End',
     excerpt: 'Coming from a place where we meandered mornings and met quail, scrub jay, mockingbird...',
     body: 'Coming from a place where we meandered mornings and met quail, scrub jay, mockingbird, i knew coyote, like everyone else...',
-    date: 'Oct 24, 2023'
+    publishedAt: '2023-10-24T12:00:00.000Z'
   }
 ];
 
@@ -37,239 +36,498 @@ const DEFAULT_SETTINGS: SiteSettings = {
   authorRoles: ['Author', 'Curator', 'Dreamer']
 };
 
+// Message shown in the CMS when a write is rejected by the store
+function describeWriteError(e: unknown): string {
+  if (e instanceof StorageQuotaError) {
+    return 'Browser storage is full. Free up space or export your content before saving again.';
+  }
+  return 'The change could not be saved.';
+}
+
 interface UseFirebaseDBReturn {
   items: ContentItem[];
+  collections: Collection[];
   settings: SiteSettings;
   isLoading: boolean;
   error: string | null;
+  storeKind: ContentStore['kind'];
   isFirebaseConfigured: boolean;
-  saveItem: (item: ContentItem) => Promise<boolean>;
+  saveItem: (item: ContentItem, author?: string) => Promise<boolean>;
   deleteItem: (id: string) => Promise<boolean>;
+  // Bulk variants report progress as a count of processed items
+  saveItems: (items: ContentItem[], onProgress?: (done: number) => void) => Promise<BulkResult>;
+  deleteItems: (ids: string[], onProgress?: (done: number) => void) => Promise<BulkResult>;
+  // Writes a previewed bundle import; progress counts pieces
+  importBundle: (plan: ImportPlan, onProgress?: (done: number) => void) => Promise<ImportResult>;
+  restoreItem: (id: string) => Promise<boolean>;
+  purgeItem: (id: string) => Promise<boolean>;
+  purgeExpired: (retentionDays: number) => Promise<number>;
   saveSettings: (settings: SiteSettings) => Promise<boolean>;
   saveMeta: (meta: ContentMeta) => Promise<boolean>;
+  saveCollection: (collection: Collection) => Promise<boolean>;
+  deleteCollection: (id: string) => Promise<boolean>;
+  listRevisions: (itemId: string) => Promise<Revision[]>;
+  // Reads one item by slug straight from the store, e.g. for a deep link
+  // while the archive is still loading
+  getItemBySlug: (slug: string) => Promise<ContentItem | null>;
   refetch: () => Promise<void>;
 }
 
-export function useFirebaseDB(): UseFirebaseDBReturn {
+function toRevision(item: ContentItem, createdAt: Date, author?: string): Revision {
+  return {
+    id: crypto.randomUUID(),
+    itemId: item.id,
+    title: item.title,
+    excerpt: item.excerpt,
+    body: item.body,
+    author,
+    createdAt: createdAt.toISOString()
+  };
+}
+
+interface UseFirebaseDBOptions {
+  // Overrides the store selected by configuration (e.g. an in-memory store with fixtures)
+  store?: ContentStore;
+  // Follow changes pushed by the store instead of loading once
+  live?: boolean;
+}
+
+const LIVE_SYNC = import.meta.env.VITE_LIVE_SYNC === 'true';
+
+function normalizeSettings(settings: SiteSettings): SiteSettings {
+  return {
+    ...settings,
+    authorRoles: Array.isArray(settings.authorRoles) ? settings.authorRoles : []
+  };
+}
+
+// Thin React wrapper around a ContentStore
+export function useFirebaseDB({ store: storeOverride, live = LIVE_SYNC }: UseFirebaseDBOptions = {}): UseFirebaseDBReturn {
   const [items, setItems] = useState<ContentItem[]>([]);
+  const [collections, setCollections] = useState<Collection[]>([]);
   const [settings, setSettings] = useState<SiteSettings>(DEFAULT_SETTINGS);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  const isFirebaseConfigured = Boolean(import.meta.env.VITE_FIREBASE_API_KEY);
+  const store = useMemo(() => storeOverride ?? createContentStore(), [storeOverride]);
+
+  // Latest items, used to roll back optimistic updates the store rejects
+  const itemsRef = useRef(items);
+  useEffect(() => {
+    itemsRef.current = items;
+  }, [items]);
+  const collectionsRef = useRef(collections);
+  useEffect(() => {
+    collectionsRef.current = collections;
+  }, [collections]);
+
+  const reportWriteError = useCallback((e: unknown) => {
+    setError(describeWriteError(e));
+  }, []);
 
   const fetchContent = useCallback(async () => {
     setIsLoading(true);
     setError(null);
 
     try {
-      if (isFirebaseConfigured) {
-        // Load settings
-        const settingsDoc = await getDoc(doc(db, 'config', 'settings'));
-        if (settingsDoc.exists()) {
-          const data = settingsDoc.data() as SiteSettings;
-          setSettings({
-            ...data,
-            authorRoles: Array.isArray(data.authorRoles) ? data.authorRoles : []
-          });
-        }
-
-        // Load items
-        const contentSnap = await getDocs(collection(db, 'content'));
-        const loadedContent: ContentItem[] = [];
-        contentSnap.forEach((doc) => {
-          loadedContent.push({ ...doc.data(), id: doc.id } as ContentItem);
-        });
-
-        // Load meta for ordering
-        const metaDoc = await getDoc(doc(db, 'config', 'meta'));
-        const contentOrder: string[] = metaDoc.exists() ? (metaDoc.data() as ContentMeta).contentOrder : [];
-
-        // Sort by content order
-        if (contentOrder.length > 0) {
-          const orderMap = new Map(contentOrder.map((id, index) => [id, index]));
-          loadedContent.sort((a, b) => {
-            const orderA = orderMap.get(a.id) ?? Infinity;
-            const orderB = orderMap.get(b.id) ?? Infinity;
-            return (orderA as number) - (orderB as number);
-          });
-        }
-
-        if (loadedContent.length > 0) {
-          setItems(loadedContent);
-          setIsLoading(false);
-          return;
-        }
-      }
+      const [loadedSettings, loadedContent, meta, loadedCollections] = await Promise.all([
+        store.getSettings(),
+        store.listItems(),
+        store.getMeta(),
+        store.listCollections()
+      ]);
 
-      // Fallback: Load from static files or localStorage
-      const savedContent = localStorage.getItem('cms_content');
-      const savedSettings = localStorage.getItem('cms_settings');
+      if (loadedSettings) setSettings(normalizeSettings(loadedSettings));
+      setCollections(loadedCollections);
 
-      if (savedContent) {
-        setItems(JSON.parse(savedContent));
-        if (savedSettings) setSettings(JSON.parse(savedSettings));
-        setIsLoading(false);
-        return;
-      }
-
-      // Load from static files
-      const settingsRes = await fetch('/content/settings.json');
-      if (settingsRes.ok) {
-        const staticSettings = await settingsRes.json();
-        setSettings(staticSettings);
-      }
-
-      const contentFiles = [
-        'quote-1.json', 'quote-2.json', 'quote-3.json', 'quote-4.json',
-        'story-this-beginning.json', 'story-fragments.json', 'story-silent-architect.json',
-        'story-train-nowhere.json', 'story-old-clock.json', 'story-last-bookstore.json',
-        'poem-first-snow.json', 'poem-jagged-winter.json', 'poem-neon-rain.json',
-        'poem-paper-planes.json', 'poem-roots.json'
-      ];
-
-      const loadedContent: ContentItem[] = [];
-      for (const file of contentFiles) {
-        try {
-          const res = await fetch(`/content/${file}`);
-          if (res.ok) {
-            const item = await res.json();
-            loadedContent.push(item);
-          }
-        } catch (e) {
-          console.warn(`Could not load ${file}, ${e}`);
-        }
-      }
-
-      const finalContent = loadedContent.length > 0 ? loadedContent : DEFAULT_CONTENT;
-      setItems(finalContent);
-      setIsLoading(false);
+      const sorted = sortByContentOrder(loadedContent.map(migrateItemDates), meta?.contentOrder ?? []);
+      setItems(sorted.length > 0 ? sorted : DEFAULT_CONTENT);
     } catch (err) {
       console.error('Error loading content:', err);
       setError('Failed to load content');
       setItems(DEFAULT_CONTENT);
+    } finally {
       setIsLoading(false);
     }
-  }, [isFirebaseConfigured]);
+  }, [store]);
 
   useEffect(() => {
-    // If not using Firebase, just fetch once (loads from static files)
-    if (!isFirebaseConfigured) {
-      const timer = setTimeout(() => {
-        fetchContent();
-      }, 0);
-      return () => clearTimeout(timer);
-    }
+    let cancelled = false;
+    let unsubscribe: (() => void) | undefined;
 
-    // If using Firebase, wait for auth state to be initialized
-    // This ensures we have the correct security context for reading
-    const unsubscribe = onAuthStateChanged(auth, (user) => {
-      if (user) {
+    store.init().then(() => {
+      if (cancelled) return;
+      if (!live || !store.subscribe) {
         fetchContent();
-      } else {
-        // Authenticate anonymously to allow reading content if rules require auth
-        signInAnonymously(auth).catch((err) => {
-          console.error("Failed to sign in anonymously:", err);
-          // Try fetching anyway in case rules allow public read
-          fetchContent();
-        });
+        return;
       }
+
+      // Items and ordering arrive on separate listeners; publish once both
+      // the collection has been seen and whenever either changes
+      let liveItems: ContentItem[] | null = null;
+      let contentOrder: string[] = [];
+      // Publishes may await a fallback read; only the latest one is applied
+      let publishes = 0;
+      const publish = async () => {
+        if (liveItems === null) return;
+        const publishId = ++publishes;
+        const loaded = liveItems.length > 0 ? liveItems : await store.listItems().catch(() => []);
+        if (cancelled || publishId !== publishes) return;
+        const current = loaded.map(migrateItemDates);
+        setItems(sortByContentOrder(current.length > 0 ? current : DEFAULT_CONTENT, contentOrder));
+        setIsLoading(false);
+      };
+
+      unsubscribe = store.subscribe({
+        onItems: (next) => {
+          liveItems = next;
+          publish();
+        },
+        onSettings: (next) => {
+          if (next) setSettings(normalizeSettings(next));
+        },
+        onMeta: (next) => {
+          contentOrder = next?.contentOrder ?? [];
+          publish();
+        },
+        onCollections: setCollections,
+        onError: (err) => {
+          console.error('Live sync error:', err);
+          setError('Live updates were interrupted. Reload to reconnect.');
+        }
+      });
     });
-    return () => unsubscribe();
-  }, [fetchContent, isFirebaseConfigured]);
 
-  const saveItem = useCallback(async (item: ContentItem): Promise<boolean> => {
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, [store, live, fetchContent]);
+
+  // Each save appends a revision. Pieces saved before history existed get
+  // their prior version recorded first so the first edit can be undone.
+  const recordRevision = useCallback(async (item: ContentItem, before: ContentItem | undefined, author?: string) => {
+    try {
+      const now = new Date();
+      if (before && (await store.listRevisions(item.id)).length === 0) {
+        await store.addRevision(toRevision(before, new Date(now.getTime() - 1)));
+      }
+      await store.addRevision(toRevision(item, now, author));
+    } catch (e) {
+      console.warn('Failed to record revision, but item was saved:', e);
+    }
+  }, [store]);
+
+  const saveItem = useCallback(async (draft: ContentItem, author?: string): Promise<boolean> => {
+    const previous = itemsRef.current;
+    const before = previous.find(i => i.id === draft.id);
+    const item = stampDates(draft, before, new Date());
+    setError(null);
     setItems(prev => {
       const exists = prev.find(i => i.id === item.id);
       if (exists) return prev.map(i => i.id === item.id ? item : i);
       return [item, ...prev];
     });
 
-    if (isFirebaseConfigured) {
-      try {
-        await setDoc(doc(db, 'content', item.id), item);
-        
-        // Update meta order if new
-        try {
-          const metaDoc = await getDoc(doc(db, 'config', 'meta'));
-          const currentOrder: string[] = metaDoc.exists() ? (metaDoc.data() as ContentMeta).contentOrder : [];
-          
-          if (!currentOrder.includes(item.id)) {
-            const newOrder = [item.id, ...currentOrder];
-            await setDoc(doc(db, 'config', 'meta'), { contentOrder: newOrder });
-          }
-        } catch (metaError) {
-          console.warn('Failed to update meta order, but item was saved:', metaError);
-        }
-        return true;
-      } catch (e) {
-        console.error('Firebase save error (check for ad-blockers if "blocked by client"):', e);
-        return false;
+    try {
+      await store.saveItem(item);
+    } catch (e) {
+      console.error(`Save error in "${store.kind}" store (check for ad-blockers if "blocked by client"):`, e);
+      setItems(previous);
+      reportWriteError(e);
+      return false;
+    }
+
+    await recordRevision(item, before, author);
+
+    // Update meta order if new
+    try {
+      const currentOrder = (await store.getMeta())?.contentOrder ?? [];
+      if (!currentOrder.includes(item.id)) {
+        await store.saveMeta({ contentOrder: [item.id, ...currentOrder] });
       }
+    } catch (metaError) {
+      console.warn('Failed to update meta order, but item was saved:', metaError);
     }
     return true;
-  }, [isFirebaseConfigured]);
+  }, [store, reportWriteError, recordRevision]);
 
-  const deleteItem = useCallback(async (id: string): Promise<boolean> => {
-    setItems(prev => prev.filter(i => i.id !== id));
+  // Replaces one item with an updated copy without recording a revision
+  const updateItem = useCallback(async (updated: ContentItem): Promise<boolean> => {
+    const previous = itemsRef.current;
+    setError(null);
+    setItems(prev => prev.map(i => i.id === updated.id ? updated : i));
+    try {
+      await store.saveItem(updated);
+      return true;
+    } catch (e) {
+      console.error('Update error:', e);
+      setItems(previous);
+      reportWriteError(e);
+      return false;
+    }
+  }, [store, reportWriteError]);
 
-    if (isFirebaseConfigured) {
+  // Writes items in batches. A rejected batch is rolled back on its own: the
+  // batches before it stay saved and are reported as such.
+  const writeBatches = useCallback(async (updated: ContentItem[], onProgress?: (done: number) => void): Promise<BulkResult> => {
+    const original = new Map(itemsRef.current.map(i => [i.id, i]));
+    const result: BulkResult = { saved: [], failed: [] };
+    setError(null);
+    for (const batch of inBatches(updated)) {
+      const ids = batch.map(i => i.id);
+      const byId = new Map(batch.map(i => [i.id, i]));
+      setItems(prev => [...prev.map(i => byId.get(i.id) ?? i), ...batch.filter(i => !original.has(i.id))]);
       try {
-        await deleteDoc(doc(db, 'content', id));
-        
-        // Update meta order
-        const metaDoc = await getDoc(doc(db, 'config', 'meta'));
-        if (metaDoc.exists()) {
-          const currentOrder = (metaDoc.data() as ContentMeta).contentOrder;
-          const newOrder = currentOrder.filter(itemId => itemId !== id);
-          await setDoc(doc(db, 'config', 'meta'), { contentOrder: newOrder });
-        }
-        return true;
+        await store.saveItems(batch);
+        result.saved.push(...ids);
       } catch (e) {
-        console.error('Firebase delete error:', e);
-        return false;
+        console.error('Bulk save error:', e);
+        setItems(prev => prev
+          .filter(i => original.has(i.id) || !byId.has(i.id))
+          .map(i => byId.has(i.id) ? original.get(i.id)! : i));
+        result.failed.push(...ids);
+        reportWriteError(e);
       }
+      onProgress?.(result.saved.length + result.failed.length);
     }
-    return true;
-  }, [isFirebaseConfigured]);
+    return result;
+  }, [store, reportWriteError]);
 
-  const saveSettings = useCallback(async (newSettings: SiteSettings): Promise<boolean> => {
-    setSettings(newSettings);
-    if (isFirebaseConfigured) {
-      try {
-        await setDoc(doc(db, 'config', 'settings'), newSettings);
-        return true;
-      } catch (e) {
-        console.error('Firebase settings save error:', e);
-        return false;
+  // Bulk edits of existing items touch metadata only, so no revision is recorded
+  const saveItems = useCallback((drafts: ContentItem[], onProgress?: (done: number) => void) => {
+    const now = new Date();
+    const updated = drafts.flatMap(draft => {
+      const before = itemsRef.current.find(i => i.id === draft.id);
+      return before ? [stampDates(draft, before, now)] : [];
+    });
+    return writeBatches(updated, onProgress);
+  }, [writeBatches]);
+
+  // Moves an item to the trash, remembering where it was in contentOrder
+  const deleteItem = useCallback(async (id: string): Promise<boolean> => {
+    const item = itemsRef.current.find(i => i.id === id);
+    if (!item) return false;
+
+    try {
+      const meta = await store.getMeta();
+      const index = meta?.contentOrder.indexOf(id) ?? -1;
+      const trashed: ContentItem = {
+        ...item,
+        deletedAt: new Date().toISOString(),
+        trashedOrderIndex: index >= 0 ? index : undefined
+      };
+      if (!(await updateItem(trashed))) return false;
+      if (meta) {
+        await store.saveMeta({ contentOrder: meta.contentOrder.filter(itemId => itemId !== id) });
       }
+      return true;
+    } catch (e) {
+      console.error('Delete error:', e);
+      reportWriteError(e);
+      return false;
     }
-    return true;
-  }, [isFirebaseConfigured]);
+  }, [store, updateItem, reportWriteError]);
 
-  const saveMeta = useCallback(async (meta: ContentMeta): Promise<boolean> => {
-    if (isFirebaseConfigured) {
+  const deleteItems = useCallback(async (ids: string[], onProgress?: (done: number) => void): Promise<BulkResult> => {
+    let meta: ContentMeta | null;
+    try {
+      meta = await store.getMeta();
+    } catch (e) {
+      console.error('Delete error:', e);
+      reportWriteError(e);
+      return { saved: [], failed: ids };
+    }
+
+    const deletedAt = new Date().toISOString();
+    const trashed = itemsRef.current.filter(i => ids.includes(i.id)).map((item): ContentItem => {
+      const index = meta?.contentOrder.indexOf(item.id) ?? -1;
+      return { ...item, deletedAt, trashedOrderIndex: index >= 0 ? index : undefined };
+    });
+    const result = await writeBatches(trashed, onProgress);
+
+    if (meta && result.saved.length > 0) {
       try {
-        await setDoc(doc(db, 'config', 'meta'), meta);
-        return true;
+        await store.saveMeta({ contentOrder: meta.contentOrder.filter(id => !result.saved.includes(id)) });
       } catch (e) {
-        console.error('Firebase meta save error:', e);
-        return false;
+        console.warn('Failed to update meta order, but items were trashed:', e);
       }
     }
-    return true;
-  }, [isFirebaseConfigured]);
+    return result;
+  }, [store, writeBatches, reportWriteError]);
+
+  const restoreItem = useCallback(async (id: string): Promise<boolean> => {
+    const item = itemsRef.current.find(i => i.id === id);
+    if (!item) return false;
+
+    const restored: ContentItem = { ...item, deletedAt: undefined, trashedOrderIndex: undefined };
+    try {
+      if (!(await updateItem(restored))) return false;
+      const currentOrder = (await store.getMeta())?.contentOrder ?? [];
+      await store.saveMeta({ contentOrder: reinsert(currentOrder, id, item.trashedOrderIndex) });
+      return true;
+    } catch (e) {
+      console.error('Restore error:', e);
+      reportWriteError(e);
+      return false;
+    }
+  }, [store, updateItem, reportWriteError]);
+
+  const saveCollection = useCallback(async (collection: Collection): Promise<boolean> => {
+    const previous = collectionsRef.current;
+    setError(null);
+    setCollections(prev => [...prev.filter(c => c.id !== collection.id), collection]);
+    try {
+      await store.saveCollection(collection);
+      return true;
+    } catch (e) {
+      console.error('Collection save error:', e);
+      setCollections(previous);
+      reportWriteError(e);
+      return false;
+    }
+  }, [store, reportWriteError]);
+
+  const deleteCollection = useCallback(async (id: string): Promise<boolean> => {
+    const previous = collectionsRef.current;
+    setError(null);
+    setCollections(prev => prev.filter(c => c.id !== id));
+    try {
+      await store.deleteCollection(id);
+      return true;
+    } catch (e) {
+      console.error('Collection delete error:', e);
+      setCollections(previous);
+      reportWriteError(e);
+      return false;
+    }
+  }, [store, reportWriteError]);
+
+  // Permanently removes an item
+  const purgeItem = useCallback(async (id: string): Promise<boolean> => {
+    const previous = itemsRef.current;
+    setError(null);
+    setItems(prev => prev.filter(i => i.id !== id));
+
+    try {
+      await store.deleteItem(id);
+
+      // Nothing, fallback stores included, may still serve the piece
+      const purged = previous.find(i => i.id === id);
+      const [byId, bySlug] = await Promise.all([
+        store.getItem(id),
+        purged ? store.getItemBySlug(slugOf(purged)) : null
+      ]);
+      if (byId || bySlug?.id === id) throw new Error(`Piece "${id}" can still be read after purging`);
+
+      // Update meta order
+      const meta = await store.getMeta();
+      if (meta) {
+        await store.saveMeta({ contentOrder: meta.contentOrder.filter(itemId => itemId !== id) });
+      }
+
+      // Drop the piece from any series it belonged to
+      for (const series of collectionsRef.current.filter(c => c.itemIds.includes(id))) {
+        await saveCollection({ ...series, itemIds: series.itemIds.filter(itemId => itemId !== id) });
+      }
+      return true;
+    } catch (e) {
+      console.error('Purge error:', e);
+      setItems(previous);
+      reportWriteError(e);
+      return false;
+    }
+  }, [store, reportWriteError, saveCollection]);
+
+  // Purges trashed items older than the retention period; returns how many
+  const purgeExpired = useCallback(async (retentionDays: number): Promise<number> => {
+    const now = Date.now();
+    const expired = itemsRef.current.filter(i => isExpired(i, retentionDays, now));
+    let purged = 0;
+    for (const item of expired) {
+      if (await purgeItem(item.id)) purged++;
+    }
+    return purged;
+  }, [purgeItem]);
+
+  const saveSettings = useCallback(async (newSettings: SiteSettings): Promise<boolean> => {
+    setError(null);
+    try {
+      await store.saveSettings(newSettings);
+      setSettings(newSettings);
+      return true;
+    } catch (e) {
+      console.error('Settings save error:', e);
+      reportWriteError(e);
+      return false;
+    }
+  }, [store, reportWriteError]);
+
+  // Writes the whole order at once and re-sorts the loaded items to match
+  const saveMeta = useCallback(async (meta: ContentMeta): Promise<boolean> => {
+    const previous = itemsRef.current;
+    setError(null);
+    setItems(prev => sortByContentOrder(prev, meta.contentOrder));
+    try {
+      await store.saveMeta(meta);
+      return true;
+    } catch (e) {
+      console.error('Meta save error:', e);
+      setItems(previous);
+      reportWriteError(e);
+      return false;
+    }
+  }, [store, reportWriteError]);
+
+  // Pieces keep the dates recorded in the bundle; series, settings and order follow
+  const importBundle = useCallback(async (plan: ImportPlan, onProgress?: (done: number) => void): Promise<ImportResult> => {
+    const result = await writeBatches(pendingChanges(plan.items), onProgress);
+    const failedParts: string[] = [];
+    for (const series of pendingChanges(plan.collections)) {
+      if (!(await saveCollection(series))) failedParts.push(`series "${series.title}"`);
+    }
+    if (plan.settings && !(await saveSettings(plan.settings))) failedParts.push('site settings');
+    if (plan.contentOrder && !(await saveMeta({ contentOrder: plan.contentOrder.filter(id => !result.failed.includes(id)) }))) {
+      failedParts.push('content order');
+    }
+    return { ...result, failedParts };
+  }, [writeBatches, saveCollection, saveSettings, saveMeta]);
+
+  const listRevisions = useCallback((itemId: string) => store.listRevisions(itemId), [store]);
+
+  const getItemBySlug = useCallback(async (slug: string) => {
+    try {
+      await store.init();
+      const item = await store.getItemBySlug(slug);
+      return item && migrateItemDates(item);
+    } catch (e) {
+      console.error('Error loading item:', e);
+      return null;
+    }
+  }, [store]);
 
   return {
     items,
+    collections,
     settings,
     isLoading,
     error,
+    storeKind: store.kind,
     isFirebaseConfigured,
     saveItem,
+    saveItems,
     deleteItem,
+    deleteItems,
+    importBundle,
+    restoreItem,
+    purgeItem,
+    purgeExpired,
     saveSettings,
     saveMeta,
+    saveCollection,
+    deleteCollection,
+    listRevisions,
+    getItemBySlug,
     refetch: fetchContent
   };
 }
@@ -0,0 +1,97 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { parseRoute, routePath } from '@/lib/routes';
+import type { Route } from '@/lib/routes';
+
+// Stored in history.state for every entry the app pushes
+interface HistoryState {
+  idx: number;
+  scrollY?: number;
+}
+
+interface UseRouteReturn {
+  route: Route;
+  navigate: (route: Route, options?: { replace?: boolean }) => void;
+  // Goes back within the site, or to `fallback` when the entry was opened directly
+  back: (fallback: Route) => void;
+}
+
+const currentState = (): HistoryState | null => window.history.state as HistoryState | null;
+
+// Question asked before leaving the current view, while a view has registered one
+let leaveMessage: string | null = null;
+
+// True when nothing is registered or the user agrees to leave
+export function confirmLeave(): boolean {
+  return !leaveMessage || window.confirm(leaveMessage);
+}
+
+/**
+ * Asks `message` before the app navigates away or the tab is closed, for as
+ * long as it is non-null.
+ */
+export function useLeaveGuard(message: string | null): void {
+  useEffect(() => {
+    if (!message) return;
+    leaveMessage = message;
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => e.preventDefault();
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => {
+      leaveMessage = null;
+      window.removeEventListener('beforeunload', handleBeforeUnload);
+    };
+  }, [message]);
+}
+
+export function useRoute(): UseRouteReturn {
+  const [route, setRoute] = useState<Route>(() => parseRoute(window.location.pathname));
+  // Where to return when a guarded Back is refused
+  const pathRef = useRef(window.location.pathname);
+
+  useEffect(() => {
+    // The app restores scroll positions itself once the view has rendered
+    window.history.scrollRestoration = 'manual';
+    if (!currentState()) {
+      window.history.replaceState({ idx: 0 } satisfies HistoryState, '');
+    }
+
+    const handlePopState = () => {
+      if (!confirmLeave()) {
+        window.history.pushState({ idx: (currentState()?.idx ?? 0) + 1 } satisfies HistoryState, '', pathRef.current);
+        return;
+      }
+      pathRef.current = window.location.pathname;
+      setRoute(parseRoute(window.location.pathname));
+      const scrollY = currentState()?.scrollY ?? 0;
+      requestAnimationFrame(() => window.scrollTo(0, scrollY));
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const navigate = useCallback((next: Route, { replace = false } = {}) => {
+    if (!confirmLeave()) return;
+    const state = currentState() ?? { idx: 0 };
+    const path = routePath(next);
+    if (replace) {
+      window.history.replaceState({ idx: state.idx } satisfies HistoryState, '', path);
+    } else {
+      // Remember where the reader was so Back returns to the same spot
+      window.history.replaceState({ ...state, scrollY: window.scrollY } satisfies HistoryState, '');
+      window.history.pushState({ idx: state.idx + 1 } satisfies HistoryState, '', path);
+    }
+    pathRef.current = path;
+    setRoute(parseRoute(path));
+    window.scrollTo(0, 0);
+  }, []);
+
+  // Both paths are guarded: history.back() through popstate, the fallback by navigate
+  const back = useCallback((fallback: Route) => {
+    if ((currentState()?.idx ?? 0) > 0) {
+      window.history.back();
+    } else {
+      navigate(fallback, { replace: true });
+    }
+  }, [navigate]);
+
+  return { route, navigate, back };
+}
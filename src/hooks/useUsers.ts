@@ -0,0 +1,74 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  inviteUser,
+  listInvites,
+  listUsers,
+  removeUser,
+  revokeInvite,
+  setUserRole
+} from '@/lib/users';
+import type { CmsInvite, CmsUser, RoleValue } from '@/types';
+
+interface UseUsersReturn {
+  users: CmsUser[];
+  invites: CmsInvite[];
+  isLoading: boolean;
+  error: string | null;
+  invite: (email: string, role: RoleValue) => Promise<boolean>;
+  revoke: (email: string) => Promise<boolean>;
+  changeRole: (user: CmsUser, role: RoleValue) => Promise<boolean>;
+  remove: (uid: string) => Promise<boolean>;
+}
+
+// Owner-only view of the users/ and invites/ collections
+export function useUsers(currentUid: string | null): UseUsersReturn {
+  const [users, setUsers] = useState<CmsUser[]>([]);
+  const [invites, setInvites] = useState<CmsInvite[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const [loadedUsers, loadedInvites] = await Promise.all([listUsers(), listInvites()]);
+      setUsers(loadedUsers);
+      setInvites(loadedInvites);
+      setError(null);
+    } catch (e) {
+      console.error('Error loading users:', e);
+      setError('Failed to load users.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Runs a write, reloads the lists and reports success like the other CMS hooks
+  const run = useCallback(async (write: () => Promise<void>, failure: string): Promise<boolean> => {
+    try {
+      await write();
+      await load();
+      return true;
+    } catch (e) {
+      console.error(failure, e);
+      setError(failure);
+      return false;
+    }
+  }, [load]);
+
+  const invite = useCallback((email: string, role: RoleValue) =>
+    run(() => inviteUser(email, role, currentUid ?? ''), 'Failed to send invite.'), [run, currentUid]);
+
+  const revoke = useCallback((email: string) =>
+    run(() => revokeInvite(email), 'Failed to revoke invite.'), [run]);
+
+  const changeRole = useCallback((user: CmsUser, role: RoleValue) =>
+    run(() => setUserRole(user, role), 'Failed to change role.'), [run]);
+
+  const remove = useCallback((uid: string) =>
+    run(() => removeUser(uid), 'Failed to remove user.'), [run]);
+
+  return { users, invites, isLoading, error, invite, revoke, changeRole, remove };
+}
@@ -0,0 +1,50 @@
+import { addTag, tagSlug } from '@/lib/tags';
+import type { ContentItem, ContentStatusValue } from '@/types';
+
+// Changes applied at once to every selected piece in the CMS list
+export type BulkEdit =
+  | { type: 'setType'; contentType: string }
+  | { type: 'setStatus'; status: ContentStatusValue }
+  | { type: 'addTag'; tag: string }
+  | { type: 'removeTag'; tag: string };
+
+// Outcome of a bulk write, by item id
+export interface BulkResult {
+  saved: string[];
+  failed: string[];
+}
+
+// Items per store write; Firestore caps a batch at 500 and smaller batches let progress show
+export const BULK_BATCH_SIZE = 100;
+
+export function applyBulkEdit(item: ContentItem, edit: BulkEdit): ContentItem {
+  switch (edit.type) {
+    case 'setType':
+      return { ...item, type: edit.contentType };
+    case 'setStatus':
+      return { ...item, status: edit.status };
+    case 'addTag':
+      return { ...item, tags: addTag(item.tags ?? [], edit.tag) };
+    case 'removeTag': {
+      const tags = (item.tags ?? []).filter((tag) => tagSlug(tag) !== tagSlug(edit.tag));
+      return { ...item, tags: tags.length ? tags : undefined };
+    }
+  }
+}
+
+export function inBatches<T>(values: T[], size = BULK_BATCH_SIZE): T[][] {
+  const batches: T[][] = [];
+  for (let i = 0; i < values.length; i += size) batches.push(values.slice(i, i + size));
+  return batches;
+}
+
+/**
+ * Moves the selected ids, kept in their current relative order, so the block
+ * starts at `toIndex` among the remaining ids (clamped).
+ */
+export function moveBlock(order: string[], ids: Set<string>, toIndex: number): string[] {
+  const block = order.filter((id) => ids.has(id));
+  const rest = order.filter((id) => !ids.has(id));
+  const position = Math.min(Math.max(toIndex, 0), rest.length);
+  return [...rest.slice(0, position), ...block, ...rest.slice(position)];
+}
@@ -0,0 +1,283 @@
+import type { Collection, ContentItem, ContentMeta, SiteSettings } from '@/types';
+import { migrateItemDates } from '@/lib/dates';
+import { slugOf } from '@/lib/slug';
+import { createZip, readZip } from '@/lib/zip';
+import type { ZipEntry } from '@/lib/zip';
+import type { BulkResult } from '@/lib/bulk';
+
+/**
+ * Portable copy of the archive, for backups and moving between backends.
+ * The JSON bundle holds everything; the ZIP variant has one Markdown file
+ * per piece (front matter + body) next to a site.json with the rest.
+ * Revisions are not included.
+ */
+
+export const BUNDLE_FORMAT = 'digital-silence-bundle';
+// Raised whenever the shape changes; older bundles must stay importable
+export const BUNDLE_VERSION = 1;
+
+export interface ContentBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  items: ContentItem[];
+  // Absent in partial bundles, e.g. an export of a selection
+  settings?: SiteSettings;
+  meta?: ContentMeta;
+  collections?: Collection[];
+}
+
+export class BundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BundleError';
+  }
+}
+
+const SITE_FILE = 'site.json';
+const PIECES_DIR = 'pieces/';
+const FRONT_MATTER = '---';
+
+export function createBundle(data: Omit<ContentBundle, 'format' | 'version' | 'exportedAt'>, now = new Date()): ContentBundle {
+  return { format: BUNDLE_FORMAT, version: BUNDLE_VERSION, exportedAt: now.toISOString(), ...data };
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((entry) => typeof entry === 'string');
+
+function checkItem(value: unknown, index: number): ContentItem {
+  if (!isObject(value) || typeof value.id !== 'string' || !value.id) {
+    throw new BundleError(`Piece ${index + 1} has no id`);
+  }
+  if (typeof value.type !== 'string' || typeof value.body !== 'string') {
+    throw new BundleError(`Piece "${value.id}" needs a type and a body`);
+  }
+  if (value.tags !== undefined && !isStringArray(value.tags)) {
+    throw new BundleError(`Piece "${value.id}" has invalid tags`);
+  }
+  return migrateItemDates(value as unknown as ContentItem);
+}
+
+function checkCollection(value: unknown, index: number): Collection {
+  if (!isObject(value) || typeof value.id !== 'string' || typeof value.title !== 'string' || !isStringArray(value.itemIds)) {
+    throw new BundleError(`Series ${index + 1} needs an id, a title and its piece ids`);
+  }
+  return value as unknown as Collection;
+}
+
+// Validates parsed JSON as a bundle; throws BundleError describing the first problem
+export function toBundle(data: unknown): ContentBundle {
+  if (!isObject(data) || data.format !== BUNDLE_FORMAT) {
+    throw new BundleError('This file is not a content bundle');
+  }
+  if (typeof data.version !== 'number' || data.version > BUNDLE_VERSION) {
+    throw new BundleError(`Bundle version ${String(data.version)} is newer than this CMS understands`);
+  }
+  if (!Array.isArray(data.items)) throw new BundleError('The bundle has no pieces');
+
+  const items = data.items.map(checkItem);
+  const ids = new Set<string>();
+  for (const item of items) {
+    if (ids.has(item.id)) throw new BundleError(`Piece "${item.id}" appears twice`);
+    ids.add(item.id);
+  }
+
+  if (data.settings !== undefined && (!isObject(data.settings) || typeof data.settings.siteTitle !== 'string')) {
+    throw new BundleError('The site settings in the bundle are invalid');
+  }
+  if (data.meta !== undefined && (!isObject(data.meta) || !isStringArray(data.meta.contentOrder))) {
+    throw new BundleError('The content order in the bundle is invalid');
+  }
+  if (data.collections !== undefined && !Array.isArray(data.collections)) {
+    throw new BundleError('The series in the bundle are invalid');
+  }
+
+  return {
+    format: BUNDLE_FORMAT,
+    version: data.version,
+    exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : new Date(0).toISOString(),
+    items,
+    settings: data.settings as SiteSettings | undefined,
+    meta: data.meta as ContentMeta | undefined,
+    collections: (data.collections as unknown[] | undefined)?.map(checkCollection)
+  };
+}
+
+/**
+ * A piece as Markdown with front matter. Values are written as JSON, which
+ * is also valid YAML, so other tools read them and strings survive any
+ * punctuation. Hand-written plain values are accepted on the way back.
+ */
+export function toMarkdownFile(item: ContentItem): string {
+  const { body, ...fields } = item;
+  const lines = Object.entries(fields)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}: ${JSON.stringify(value)}`);
+  return `${FRONT_MATTER}\n${lines.join('\n')}\n${FRONT_MATTER}\n\n${body}\n`;
+}
+
+export function fromMarkdownFile(text: string, name: string): ContentItem {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const close = lines.indexOf(FRONT_MATTER, 1);
+  if (lines[0] !== FRONT_MATTER || close === -1) throw new BundleError(`${name} has no front matter`);
+
+  const fields: Record<string, unknown> = {};
+  for (const line of lines.slice(1, close)) {
+    const match = line.match(/^([A-Za-z]+):\s*(.*)$/);
+    if (!match) continue;
+    try {
+      fields[match[1]] = JSON.parse(match[2]);
+    } catch {
+      fields[match[1]] = match[2];
+    }
+  }
+  // One blank line separates the front matter; the final newline is the file's
+  const body = lines.slice(close + 1).join('\n').replace(/^\n/, '').replace(/\n$/, '');
+  return { ...fields, body } as ContentItem;
+}
+
+// File names follow the slug; a clash (e.g. a trashed copy) falls back to the id
+function markdownEntries(items: ContentItem[]): ZipEntry[] {
+  const encoder = new TextEncoder();
+  const used = new Set<string>();
+  return items.map((item) => {
+    let name = slugOf(item);
+    if (used.has(name)) name = `${name}-${item.id}`;
+    used.add(name);
+    return { name: `${PIECES_DIR}${name}.md`, data: encoder.encode(toMarkdownFile(item)) };
+  });
+}
+
+export function bundleToZip(bundle: ContentBundle): Uint8Array<ArrayBuffer> {
+  const { items, ...site } = bundle;
+  const encoder = new TextEncoder();
+  return createZip(
+    [{ name: SITE_FILE, data: encoder.encode(JSON.stringify(site, null, 2)) }, ...markdownEntries(items)],
+    new Date(bundle.exportedAt)
+  );
+}
+
+// Entries may sit inside a top-level folder when the archive was re-zipped by hand
+export async function bundleFromZip(data: ArrayBuffer): Promise<ContentBundle> {
+  const decoder = new TextDecoder();
+  const entries = await readZip(data);
+  const site = entries.find((entry) => entry.name === SITE_FILE || entry.name.endsWith(`/${SITE_FILE}`));
+  if (!site) throw new BundleError(`The archive has no ${SITE_FILE}`);
+
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(decoder.decode(site.data));
+  } catch {
+    throw new BundleError(`${SITE_FILE} is not valid JSON`);
+  }
+  const items = entries
+    .filter((entry) => entry.name.endsWith('.md') && entry.name.includes(PIECES_DIR))
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map((entry) => fromMarkdownFile(decoder.decode(entry.data), entry.name));
+  return toBundle({ ...(isObject(manifest) ? manifest : {}), items });
+}
+
+// Reads a .json or .zip bundle chosen by the author
+export async function readBundleFile(file: File): Promise<ContentBundle> {
+  if (file.name.toLowerCase().endsWith('.zip')) {
+    try {
+      return await bundleFromZip(await file.arrayBuffer());
+    } catch (e) {
+      throw e instanceof BundleError ? e : new BundleError(`Could not read ${file.name}: ${(e as Error).message}`);
+    }
+  }
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch {
+    throw new BundleError(`${file.name} is not valid JSON`);
+  }
+  return toBundle(data);
+}
+
+export type ImportChange<T> =
+  | { type: 'create'; value: T }
+  | { type: 'update'; value: T; current: T }
+  | { type: 'unchanged'; value: T }
+  | { type: 'conflict'; value: T; current?: T; reason: string };
+
+/**
+ * What importing a bundle would do, computed before anything is written.
+ * Conflicts are reported and skipped.
+ */
+export interface ImportPlan {
+  items: ImportChange<ContentItem>[];
+  collections: ImportChange<Collection>[];
+  // Set only when the bundle would change them
+  settings?: SiteSettings;
+  contentOrder?: string[];
+}
+
+// Serialization with sorted keys and no undefined fields, for comparisons
+export function canonical(value: unknown): string {
+  return JSON.stringify(value, (_, entry) =>
+    isObject(entry) ? Object.fromEntries(Object.entries(entry).sort(([a], [b]) => a.localeCompare(b))) : entry
+  );
+}
+
+function planItem(item: ContentItem, current: ContentItem[], exportedAt: string): ImportChange<ContentItem> {
+  const existing = current.find((i) => i.id === item.id);
+  const slugOwner = current.find((i) => i.id !== item.id && !i.deletedAt && slugOf(i) === slugOf(item));
+  if (slugOwner && !item.deletedAt) {
+    return { type: 'conflict', value: item, current: slugOwner, reason: `/piece/${slugOf(item)} belongs to another piece` };
+  }
+  if (!existing) return { type: 'create', value: item };
+  if (canonical(existing) === canonical(item)) return { type: 'unchanged', value: item };
+  if (existing.updatedAt && existing.updatedAt > exportedAt) {
+    return { type: 'conflict', value: item, current: existing, reason: 'Edited here after the bundle was exported' };
+  }
+  return { type: 'update', value: item, current: existing };
+}
+
+function planCollection(series: Collection, current: Collection[]): ImportChange<Collection> {
+  const existing = current.find((c) => c.id === series.id);
+  const slugOwner = current.find((c) => c.id !== series.id && c.slug === series.slug);
+  if (slugOwner) {
+    return { type: 'conflict', value: series, current: slugOwner, reason: `/series/${series.slug} belongs to another series` };
+  }
+  if (!existing) return { type: 'create', value: series };
+  if (canonical(existing) === canonical(series)) return { type: 'unchanged', value: series };
+  return { type: 'update', value: series, current: existing };
+}
+
+export function planImport(
+  bundle: ContentBundle,
+  current: { items: ContentItem[]; collections: Collection[]; settings: SiteSettings }
+): ImportPlan {
+  const items = bundle.items.map((item) => planItem(item, current.items, bundle.exportedAt));
+  const collections = (bundle.collections ?? []).map((series) => planCollection(series, current.collections));
+
+  // The bundle's order first, then live pieces it does not mention, in their current order
+  const currentOrder = current.items.filter((i) => !i.deletedAt).map((i) => i.id);
+  const skipped = new Set(items.filter((change) => change.type === 'conflict').map((change) => change.value.id));
+  const known = new Set([...current.items, ...bundle.items].map((i) => i.id));
+  const importedOrder = bundle.meta
+    ? bundle.meta.contentOrder.filter((id) => known.has(id) && !skipped.has(id))
+    : items.filter((change) => change.type === 'create' && !change.value.deletedAt).map((change) => change.value.id);
+  const contentOrder = [...importedOrder, ...currentOrder.filter((id) => !importedOrder.includes(id))];
+
+  return {
+    items,
+    collections,
+    settings: bundle.settings && canonical(bundle.settings) !== canonical(current.settings) ? bundle.settings : undefined,
+    contentOrder: canonical(contentOrder) !== canonical(currentOrder) ? contentOrder : undefined
+  };
+}
+
+// Outcome of an import: piece ids, plus the other parts that failed to save
+export interface ImportResult extends BulkResult {
+  failedParts: string[];
+}
+
+// Changes an import would write
+export function pendingChanges<T>(changes: ImportChange<T>[]): T[] {
+  return changes.flatMap((change) => (change.type === 'create' || change.type === 'update' ? [change.value] : []));
+}
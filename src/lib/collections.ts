@@ -0,0 +1,49 @@
+import { slugify } from '@/lib/slug';
+import type { Collection, ContentItem } from '@/types';
+
+export interface SeriesPosition {
+  collection: Collection;
+  // Zero-based index among the members that are available
+  index: number;
+  total: number;
+  previous?: ContentItem;
+  next?: ContentItem;
+}
+
+// Members in reading order, skipping ids that are not among `items`
+// (unpublished, trashed or purged pieces)
+export function collectionMembers(collection: Collection, items: ContentItem[]): ContentItem[] {
+  const byId = new Map(items.map((item) => [item.id, item]));
+  return collection.itemIds
+    .map((id) => byId.get(id))
+    .filter((item): item is ContentItem => item !== undefined);
+}
+
+// Where a piece sits in every series it belongs to
+export function seriesPositions(collections: Collection[], item: ContentItem, items: ContentItem[]): SeriesPosition[] {
+  return collections.flatMap((collection) => {
+    const members = collectionMembers(collection, items);
+    const index = members.findIndex((member) => member.id === item.id);
+    if (index < 0) return [];
+    return [{
+      collection,
+      index,
+      total: members.length,
+      previous: members[index - 1],
+      next: members[index + 1]
+    }];
+  });
+}
+
+// Appends -2, -3, ... until no other collection uses the slug
+export function uniqueCollectionSlug(title: string, collections: Collection[], selfId?: string): string {
+  const taken = new Set(collections.filter((c) => c.id !== selfId).map((c) => c.slug));
+  const root = slugify(title) || 'series';
+  let candidate = root;
+  for (let n = 2; taken.has(candidate); n++) candidate = `${root}-${n}`;
+  return candidate;
+}
+
+export function findCollection(collections: Collection[], slug: string): Collection | undefined {
+  return collections.find((collection) => collection.slug === slug || collection.id === slug);
+}
@@ -0,0 +1,129 @@
+import { BadgeColor, ContentType, TypeRenderer } from '@/types';
+import type {
+  BadgeColorValue,
+  ContentItem,
+  ContentTypeDefinition,
+  SiteSettings,
+  TypeRendererValue
+} from '@/types';
+import { slugify } from '@/lib/slug';
+import { RESERVED_SEGMENTS } from '@/lib/routes';
+
+export const DEFAULT_CONTENT_TYPES: ContentTypeDefinition[] = [
+  {
+    id: ContentType.STORY,
+    label: 'Story',
+    plural: 'Stories',
+    path: 'stories',
+    navOrder: 0,
+    hasTitle: true,
+    hasExcerpt: true,
+    badge: BadgeColor.BLUE,
+    renderer: TypeRenderer.PROSE
+  },
+  {
+    id: ContentType.POEM,
+    label: 'Poetry',
+    plural: 'Poetry',
+    path: 'poetry',
+    navOrder: 1,
+    hasTitle: true,
+    hasExcerpt: true,
+    badge: BadgeColor.PURPLE,
+    renderer: TypeRenderer.VERSE
+  },
+  {
+    id: ContentType.QUOTE,
+    label: 'Quote',
+    plural: 'Quotes',
+    path: 'quotes',
+    navOrder: 2,
+    hasTitle: false,
+    hasExcerpt: false,
+    badge: BadgeColor.GREEN,
+    renderer: TypeRenderer.QUOTE
+  }
+];
+
+export const BADGE_CLASSES: Record<BadgeColorValue, string> = {
+  [BadgeColor.BLUE]: 'bg-blue-100 text-blue-700',
+  [BadgeColor.PURPLE]: 'bg-purple-100 text-purple-700',
+  [BadgeColor.GREEN]: 'bg-green-100 text-green-700',
+  [BadgeColor.AMBER]: 'bg-amber-100 text-amber-700',
+  [BadgeColor.ROSE]: 'bg-rose-100 text-rose-700',
+  [BadgeColor.GRAY]: 'bg-gray-100 text-gray-700'
+};
+
+export const BADGE_COLORS = Object.values(BadgeColor);
+
+export const RENDERER_LABELS: Record<TypeRendererValue, string> = {
+  [TypeRenderer.PROSE]: 'Prose (title, paragraphs)',
+  [TypeRenderer.VERSE]: 'Verse (stanzas, line by line)',
+  [TypeRenderer.QUOTE]: 'Quote (large text, no title)'
+};
+
+export const RENDERERS = Object.values(TypeRenderer);
+
+// Registered types in navigation order
+export function getContentTypes(settings: Pick<SiteSettings, 'contentTypes'>): ContentTypeDefinition[] {
+  const types = settings.contentTypes?.length ? settings.contentTypes : DEFAULT_CONTENT_TYPES;
+  return [...types].sort((a, b) => a.navOrder - b.navOrder);
+}
+
+// Pieces whose type was never registered still render, as plain prose
+export function getTypeDefinition(types: ContentTypeDefinition[], id: string): ContentTypeDefinition {
+  return types.find((type) => type.id === id) ?? {
+    id,
+    label: id,
+    plural: id,
+    path: slugify(id),
+    navOrder: Infinity,
+    hasTitle: true,
+    hasExcerpt: true,
+    badge: BadgeColor.GRAY,
+    renderer: TypeRenderer.PROSE
+  };
+}
+
+export function findTypeByPath(types: ContentTypeDefinition[], path: string): ContentTypeDefinition | undefined {
+  return types.find((type) => type.path === path);
+}
+
+export function newTypeDefinition(label: string, types: ContentTypeDefinition[]): ContentTypeDefinition {
+  return {
+    id: label,
+    label,
+    plural: `${label}s`,
+    path: slugify(`${label}s`),
+    navOrder: types.length,
+    hasTitle: true,
+    hasExcerpt: true,
+    badge: BadgeColor.GRAY,
+    renderer: TypeRenderer.PROSE
+  };
+}
+
+export function countByType(items: ContentItem[], id: string): number {
+  return items.filter((item) => item.type === id).length;
+}
+
+// First problem that would break routing or stored pieces, if any
+export function validateContentTypes(types: ContentTypeDefinition[]): string | null {
+  if (types.length === 0) return 'At least one content type is required.';
+  const ids = new Set<string>();
+  const paths = new Set<string>();
+  for (const type of types) {
+    if (!type.id.trim() || !type.label.trim() || !type.plural.trim()) {
+      return 'Every content type needs a name and a plural.';
+    }
+    if (ids.has(type.id)) return `Two content types are called "${type.id}".`;
+    if (!type.path || type.path !== slugify(type.path)) {
+      return `The URL of "${type.label}" may only use lowercase letters, digits and dashes.`;
+    }
+    if (RESERVED_SEGMENTS.includes(type.path)) return `"/${type.path}" is reserved by the site.`;
+    if (paths.has(type.path)) return `Two content types use the URL "/${type.path}".`;
+    ids.add(type.id);
+    paths.add(type.path);
+  }
+  return null;
+}
@@ -0,0 +1,114 @@
+import { ContentStatus } from '@/types';
+import type { ContentItem } from '@/types';
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Calendar days are stored at noon UTC so they read as the same day in
+// every timezone
+function calendarDay(year: number, month: number, day: number): string {
+  return new Date(Date.UTC(year, month, day, 12)).toISOString();
+}
+
+/**
+ * Reads the free-text dates typed before dates were structured:
+ * "Oct 24, 2023", "24 Oct 2023", "2023-10-24" or a bare year.
+ */
+export function parseLegacyDate(text: string): string | undefined {
+  const value = text.trim();
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (iso) return calendarDay(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+
+  const monthFirst = value.match(/^([a-z]+)\.?\s+(\d{1,2}),?\s+(\d{4})$/i);
+  const dayFirst = value.match(/^(\d{1,2})\s+([a-z]+)\.?,?\s+(\d{4})$/i);
+  const [monthName, day, year] = monthFirst
+    ? [monthFirst[1], monthFirst[2], monthFirst[3]]
+    : dayFirst
+      ? [dayFirst[2], dayFirst[1], dayFirst[3]]
+      : [];
+  const month = monthName ? MONTHS.indexOf(monthName.slice(0, 3).toLowerCase()) : -1;
+  if (month >= 0) return calendarDay(Number(year), month, Number(day));
+
+  if (/^\d{4}$/.test(value)) return calendarDay(Number(value), 0, 1);
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? undefined : new Date(parsed).toISOString();
+}
+
+// Moves a legacy `date` string into `publishedAt`; unreadable dates are kept
+export function migrateItemDates(item: ContentItem): ContentItem {
+  if (!item.date) return item;
+  const publishedAt = item.publishedAt ?? parseLegacyDate(item.date);
+  if (!publishedAt) return item;
+  return { ...item, publishedAt, date: undefined };
+}
+
+const goesOut = (item: ContentItem) => item.status === undefined
+  || item.status === ContentStatus.PUBLISHED
+  || item.status === ContentStatus.SCHEDULED;
+
+/**
+ * Fills in the timestamps the editor does not manage: `createdAt` on the
+ * first save, `updatedAt` on every save and, once a piece goes out,
+ * `publishedAt` (its scheduled time, or now). A piece published again or
+ * rescheduled gets a new `publishedAt`, unless the author picks one in the
+ * same save.
+ */
+export function stampDates(item: ContentItem, previous: ContentItem | undefined, now: Date): ContentItem {
+  const chosen = item.publishedAt !== previous?.publishedAt;
+  const released = !previous || !goesOut(previous) || previous.publishAt !== item.publishAt;
+  const keepsDate = item.publishedAt !== undefined && (chosen || !released);
+  return {
+    ...item,
+    createdAt: previous?.createdAt ?? item.createdAt ?? now.toISOString(),
+    updatedAt: now.toISOString(),
+    publishedAt: keepsDate || !goesOut(item) ? item.publishedAt : item.publishAt ?? now.toISOString()
+  };
+}
+
+// The date readers see for a piece
+export function displayDate(item: ContentItem): string | undefined {
+  return item.publishedAt ?? item.publishAt ?? item.createdAt;
+}
+
+export function formatDate(iso: string | undefined, locale?: string): string {
+  if (!iso) return '';
+  return new Intl.DateTimeFormat(locale, { year: 'numeric', month: 'short', day: 'numeric' }).format(new Date(iso));
+}
+
+export function formatTime(iso: string, locale?: string): string {
+  return new Intl.DateTimeFormat(locale, { hour: '2-digit', minute: '2-digit' }).format(new Date(iso));
+}
+
+export function newestFirstByDate(items: ContentItem[]): ContentItem[] {
+  return [...items].sort((a, b) => (displayDate(b) ?? '').localeCompare(displayDate(a) ?? ''));
+}
+
+export interface ArchiveMonth {
+  // 0-11
+  month: number;
+  items: ContentItem[];
+}
+
+export interface ArchiveYear {
+  year: number;
+  months: ArchiveMonth[];
+}
+
+// Newest first, grouped by year then month in local time; undated pieces are left out
+export function groupByYearAndMonth(items: ContentItem[]): ArchiveYear[] {
+  const years: ArchiveYear[] = [];
+  for (const item of newestFirstByDate(items)) {
+    const iso = displayDate(item);
+    if (!iso) continue;
+    const date = new Date(iso);
+    let year = years.find((y) => y.year === date.getFullYear());
+    if (!year) years.push((year = { year: date.getFullYear(), months: [] }));
+    let month = year.months.find((m) => m.month === date.getMonth());
+    if (!month) year.months.push((month = { month: date.getMonth(), items: [] }));
+    month.items.push(item);
+  }
+  return years;
+}
+
+export function monthName(month: number, locale?: string): string {
+  return new Intl.DateTimeFormat(locale, { month: 'long' }).format(new Date(2000, month, 1));
+}
@@ -0,0 +1,19 @@
+// Long enough for the browser to start reading a large bundle
+const REVOKE_DELAY_MS = 10_000;
+
+// Offers data to the browser as a file download
+export function downloadFile(filename: string, data: BlobPart, type: string): void {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Firefox and Safari start the download after click() returns
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+}
+
+export function downloadJSON(filename: string, data: unknown): void {
+  downloadFile(filename, JSON.stringify(data, null, 2), 'application/json');
+}
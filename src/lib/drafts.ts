@@ -0,0 +1,47 @@
+import type { ContentItem } from '@/types';
+
+// Unsaved editor state, kept in this browser only until the piece is saved
+export interface LocalDraft {
+  form: Partial<ContentItem>;
+  // ISO timestamp of the last autosave
+  savedAt: string;
+}
+
+// Pieces that have never been saved share one slot
+export const NEW_DRAFT_ID = 'new';
+
+const draftKey = (id: string) => `cms_draft_${id}`;
+
+// Drafts are a safety net: storage that is full or disabled must not break editing
+export function readDraft(id: string): LocalDraft | null {
+  try {
+    const raw = localStorage.getItem(draftKey(id));
+    return raw ? (JSON.parse(raw) as LocalDraft) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function writeDraft(id: string, form: Partial<ContentItem>, now: Date): LocalDraft | null {
+  const draft: LocalDraft = { form, savedAt: now.toISOString() };
+  try {
+    localStorage.setItem(draftKey(id), JSON.stringify(draft));
+    return draft;
+  } catch (e) {
+    console.error('Error autosaving draft:', e);
+    return null;
+  }
+}
+
+export function clearDraft(id: string): void {
+  try {
+    localStorage.removeItem(draftKey(id));
+  } catch {
+    // Nothing was stored
+  }
+}
+
+// Whether a draft holds anything the saved piece (or an empty form) does not
+export function differsFrom(draft: LocalDraft, form: Partial<ContentItem>): boolean {
+  return JSON.stringify(draft.form) !== JSON.stringify(form);
+}
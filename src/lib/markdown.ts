@@ -0,0 +1,307 @@
+/**
+ * The constrained Markdown dialect used for piece bodies:
+ *
+ *   *italics* or _italics_, **bold**, [links](https://…), footnote
+ *   references [^1] with `[^1]: text` definitions, `> ` epigraphs and
+ *   `***` scene breaks. Blank lines separate paragraphs; single line breaks
+ *   are kept, so poems keep their lines.
+ *
+ * Nothing is ever treated as HTML: the parser returns a tree of plain text
+ * that components render as React elements.
+ */
+
+export type Inline =
+  | { type: 'text'; text: string }
+  | { type: 'em'; children: Inline[] }
+  | { type: 'strong'; children: Inline[] }
+  | { type: 'link'; href: string; children: Inline[] }
+  | { type: 'footnoteRef'; number: number }
+  | { type: 'break' };
+
+export type Block =
+  | { type: 'paragraph'; children: Inline[] }
+  | { type: 'blockquote'; blocks: Block[] }
+  | { type: 'sceneBreak' };
+
+export interface Footnote {
+  number: number;
+  children: Inline[];
+}
+
+export interface MarkdownDocument {
+  blocks: Block[];
+  // In order of number
+  footnotes: Footnote[];
+}
+
+export interface VerseLine {
+  // Leading spaces, with tabs counted as four
+  indent: number;
+  children: Inline[];
+  // 1-based across the whole poem
+  number: number;
+}
+
+// Poems keep the epigraphs and section breaks of prose, with stanzas for paragraphs
+export type VerseBlock =
+  | { type: 'stanza'; lines: VerseLine[] }
+  | Exclude<Block, { type: 'paragraph' }>;
+
+export interface VerseDocument {
+  blocks: VerseBlock[];
+  footnotes: Footnote[];
+}
+
+const SCENE_BREAK = /^\s*(?:(?:\*\s*){3,}|(?:-\s*){3,})$/;
+const FOOTNOTE_DEFINITION = /^\[\^([^\]\s]+)\]:\s*(.*)$/;
+const QUOTE_LINE = /^\s*>\s?(.*)$/;
+const TAB_WIDTH = 4;
+
+// Only web, mail and same-site links; anything else (javascript:, data:, …) is dropped
+export function safeHref(href: string): string | null {
+  const value = href.trim();
+  if (/^(https?:|mailto:)/i.test(value)) return value;
+  if (value.startsWith('#') || (value.startsWith('/') && !value.startsWith('//'))) return value;
+  return null;
+}
+
+export function isInternalHref(href: string): boolean {
+  return href.startsWith('/');
+}
+
+// Footnote numbers follow the order of first reference
+interface FootnoteContext {
+  sources: Map<string, string>;
+  numbers: Map<string, number>;
+}
+
+function footnoteNumber(label: string, context: FootnoteContext): number {
+  let number = context.numbers.get(label);
+  if (number === undefined) {
+    number = context.numbers.size + 1;
+    context.numbers.set(label, number);
+  }
+  return number;
+}
+
+function pushText(nodes: Inline[], text: string) {
+  const last = nodes[nodes.length - 1];
+  if (last?.type === 'text') last.text += text;
+  else nodes.push({ type: 'text', text });
+}
+
+// Closing delimiter for emphasis opened at `start`, or -1
+function findClosing(text: string, delimiter: string, start: number): number {
+  if (/\s/.test(text.charAt(start))) return -1;
+  let index = text.indexOf(delimiter, start + 1);
+  while (index !== -1 && (text[index - 1] === '\\' || /\s/.test(text[index - 1]))) {
+    index = text.indexOf(delimiter, index + 1);
+  }
+  return index;
+}
+
+function parseInline(text: string, context: FootnoteContext): Inline[] {
+  const nodes: Inline[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '\\' && i + 1 < text.length) {
+      pushText(nodes, text[i + 1]);
+      i += 2;
+      continue;
+    }
+
+    if (char === '[') {
+      const footnote = text.slice(i).match(/^\[\^([^\]\s]+)\]/);
+      if (footnote && context.sources.has(footnote[1])) {
+        nodes.push({ type: 'footnoteRef', number: footnoteNumber(footnote[1], context) });
+        i += footnote[0].length;
+        continue;
+      }
+      const link = text.slice(i).match(/^\[([^\]]+)\]\(([^)\s]+)\)/);
+      if (link) {
+        const children = parseInline(link[1], context);
+        const href = safeHref(link[2]);
+        if (href) nodes.push({ type: 'link', href, children });
+        else nodes.push(...children);
+        i += link[0].length;
+        continue;
+      }
+    }
+
+    if (char === '*' || char === '_') {
+      // `_` only opens at the start of a word, so snake_case stays as typed
+      const opensWord = char === '*' || i === 0 || !/[\p{L}\p{N}]/u.test(text[i - 1]);
+      const run = text.startsWith(char.repeat(3), i) ? 3 : text.startsWith(char.repeat(2), i) ? 2 : 1;
+      const delimiter = char.repeat(run);
+      const close = opensWord ? findClosing(text, delimiter, i + run) : -1;
+      if (close > i + run) {
+        const children = parseInline(text.slice(i + run, close), context);
+        if (run === 1) nodes.push({ type: 'em', children });
+        else if (run === 2) nodes.push({ type: 'strong', children });
+        else nodes.push({ type: 'strong', children: [{ type: 'em', children }] });
+        i = close + run;
+        continue;
+      }
+      pushText(nodes, delimiter);
+      i += run;
+      continue;
+    }
+
+    pushText(nodes, char);
+    i++;
+  }
+  return nodes;
+}
+
+// The run of `> ` lines starting at `start`, without their markers
+function quotedLines(lines: string[], start: number): string[] {
+  const quoted: string[] = [];
+  for (let i = start; i < lines.length && QUOTE_LINE.test(lines[i]); i++) {
+    quoted.push(lines[i].match(QUOTE_LINE)![1]);
+  }
+  return quoted;
+}
+
+function parseLines(lines: string[], context: FootnoteContext): Block[] {
+  const blocks: Block[] = [];
+  let paragraph: string[] = [];
+
+  const flush = () => {
+    if (paragraph.length === 0) return;
+    const children: Inline[] = [];
+    paragraph.forEach((line, index) => {
+      if (index > 0) children.push({ type: 'break' });
+      children.push(...parseInline(line.trim(), context));
+    });
+    blocks.push({ type: 'paragraph', children });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (!line.trim()) {
+      flush();
+    } else if (SCENE_BREAK.test(line)) {
+      flush();
+      blocks.push({ type: 'sceneBreak' });
+    } else if (QUOTE_LINE.test(line)) {
+      flush();
+      const quoted = quotedLines(lines, i);
+      i += quoted.length - 1;
+      blocks.push({ type: 'blockquote', blocks: parseLines(quoted, context) });
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flush();
+  return blocks;
+}
+
+// Splits footnote definitions from the text lines
+function readSource(source: string): { lines: string[]; context: FootnoteContext } {
+  const context: FootnoteContext = { sources: new Map(), numbers: new Map() };
+  const lines: string[] = [];
+  for (const line of source.replace(/\r\n?/g, '\n').split('\n')) {
+    const definition = line.match(FOOTNOTE_DEFINITION);
+    if (definition) context.sources.set(definition[1], definition[2]);
+    else lines.push(line);
+  }
+  return { lines, context };
+}
+
+// Called once the text is parsed, so numbers follow the references
+function collectFootnotes(context: FootnoteContext): Footnote[] {
+  // Definitions nobody refers to are still shown, after the referenced ones
+  return [...context.sources.keys()]
+    .map((label) => ({ label, number: footnoteNumber(label, context) }))
+    .sort((a, b) => a.number - b.number)
+    .map(({ label, number }) => ({ number, children: parseInline(context.sources.get(label)!, context) }));
+}
+
+export function parseMarkdown(source: string): MarkdownDocument {
+  const { lines, context } = readSource(source);
+  const blocks = parseLines(lines, context);
+  return { blocks, footnotes: collectFootnotes(context) };
+}
+
+/**
+ * Reads a poem: every line stays a line, blank lines end a stanza, and
+ * leading whitespace is kept as indentation. Runs of spaces inside a line
+ * (caesuras) are left in the text for the renderer to preserve.
+ */
+export function parseVerse(source: string): VerseDocument {
+  const { lines, context } = readSource(source);
+  const blocks: VerseBlock[] = [];
+  let stanza: VerseLine[] = [];
+  let lineCount = 0;
+
+  const flush = () => {
+    if (stanza.length > 0) blocks.push({ type: 'stanza', lines: stanza });
+    stanza = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trimEnd();
+    if (!line.trim()) {
+      flush();
+    } else if (SCENE_BREAK.test(line)) {
+      flush();
+      blocks.push({ type: 'sceneBreak' });
+    } else if (QUOTE_LINE.test(line)) {
+      flush();
+      const quoted = quotedLines(lines, i);
+      i += quoted.length - 1;
+      blocks.push({ type: 'blockquote', blocks: parseLines(quoted, context) });
+    } else {
+      const leading = line.match(/^\s*/)![0];
+      stanza.push({
+        indent: leading.replace(/\t/g, ' '.repeat(TAB_WIDTH)).length,
+        children: parseInline(line.slice(leading.length), context),
+        number: ++lineCount
+      });
+    }
+  }
+  flush();
+  return { blocks, footnotes: collectFootnotes(context) };
+}
+
+function inlineText(nodes: Inline[]): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case 'text':
+          return node.text;
+        case 'break':
+          return ' ';
+        case 'footnoteRef':
+          return '';
+        default:
+          return inlineText(node.children);
+      }
+    })
+    .join('');
+}
+
+function blocksText(blocks: Block[]): string[] {
+  return blocks.flatMap((block) => {
+    if (block.type === 'paragraph') return [inlineText(block.children)];
+    if (block.type === 'blockquote') return blocksText(block.blocks);
+    return [];
+  });
+}
+
+// Plain text of a body or excerpt, on one line, for previews and share text
+export function stripMarkup(source: string): string {
+  return blocksText(parseMarkdown(source).blocks).join(' ').replace(/\s+/g, ' ').trim();
+}
+
+// The first `length` characters of the plain text, cut at a word
+export function plainExcerpt(source: string, length: number): string {
+  const text = stripMarkup(source);
+  if (text.length <= length) return text;
+  const cut = text.slice(0, length);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > length / 2 ? cut.slice(0, lastSpace) : cut).trimEnd()}...`;
+}
@@ -0,0 +1,37 @@
+import { Role } from '@/types';
+import type { RoleValue } from '@/types';
+
+export type Permission =
+  | 'content.create'
+  | 'content.edit'
+  | 'content.publish'
+  | 'content.delete'
+  | 'content.reorder'
+  | 'collections.edit'
+  | 'settings.edit'
+  | 'users.manage';
+
+// Mirrored by the role checks in firestore.rules; keep both in sync
+const ROLE_PERMISSIONS: Record<RoleValue, Permission[]> = {
+  [Role.OWNER]: [
+    'content.create', 'content.edit', 'content.publish', 'content.delete',
+    'content.reorder', 'collections.edit', 'settings.edit', 'users.manage'
+  ],
+  [Role.EDITOR]: [
+    'content.create', 'content.edit', 'content.publish', 'content.delete',
+    'content.reorder', 'collections.edit', 'settings.edit'
+  ],
+  [Role.CONTRIBUTOR]: ['content.create', 'content.edit'],
+  [Role.VIEWER]: []
+};
+
+export const ROLE_LABELS: Record<RoleValue, string> = {
+  [Role.OWNER]: 'Owner',
+  [Role.EDITOR]: 'Editor',
+  [Role.CONTRIBUTOR]: 'Contributor',
+  [Role.VIEWER]: 'Viewer'
+};
+
+export function hasPermission(role: RoleValue | null, permission: Permission): boolean {
+  return role !== null && ROLE_PERMISSIONS[role].includes(permission);
+}
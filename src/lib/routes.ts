@@ -0,0 +1,68 @@
+export type CmsTab = 'content' | 'collections' | 'trash' | 'settings' | 'users';
+
+export type Route =
+  | { name: 'home' }
+  // Public list of one content type, by its registry path
+  | { name: 'list'; path: string }
+  | { name: 'piece'; slug: string }
+  | { name: 'tags' }
+  | { name: 'tag'; tag: string }
+  | { name: 'collections' }
+  | { name: 'collection'; slug: string }
+  | { name: 'archive' }
+  | { name: 'cms'; tab: CmsTab }
+  | { name: 'notFound' };
+
+// First segments owned by the site; content types cannot use them as paths
+export const RESERVED_SEGMENTS = ['piece', 'tags', 'series', 'archive', 'cms'];
+
+const CMS_TABS: CmsTab[] = ['content', 'collections', 'trash', 'settings', 'users'];
+
+export function parseRoute(pathname: string): Route {
+  let segments: string[];
+  try {
+    segments = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    // Malformed escapes such as "%E0%A4%A" cannot name any page
+    return { name: 'notFound' };
+  }
+  const [first, second] = segments;
+
+  if (segments.length === 0) return { name: 'home' };
+  if (segments.length === 2 && first === 'piece') return { name: 'piece', slug: second };
+  if (segments.length === 1 && first === 'tags') return { name: 'tags' };
+  if (segments.length === 2 && first === 'tags') return { name: 'tag', tag: second };
+  if (segments.length === 1 && first === 'series') return { name: 'collections' };
+  if (segments.length === 2 && first === 'series') return { name: 'collection', slug: second };
+  if (segments.length === 1 && first === 'archive') return { name: 'archive' };
+  if (segments.length === 1 && !RESERVED_SEGMENTS.includes(first)) return { name: 'list', path: first };
+  if (first === 'cms' && segments.length <= 2) {
+    const tab = (second ?? 'content') as CmsTab;
+    if (CMS_TABS.includes(tab)) return { name: 'cms', tab };
+  }
+  return { name: 'notFound' };
+}
+
+export function routePath(route: Route): string {
+  switch (route.name) {
+    case 'home':
+    case 'notFound':
+      return '/';
+    case 'list':
+      return `/${encodeURIComponent(route.path)}`;
+    case 'piece':
+      return `/piece/${encodeURIComponent(route.slug)}`;
+    case 'tags':
+      return '/tags';
+    case 'tag':
+      return `/tags/${encodeURIComponent(route.tag)}`;
+    case 'collections':
+      return '/series';
+    case 'collection':
+      return `/series/${encodeURIComponent(route.slug)}`;
+    case 'archive':
+      return '/archive';
+    case 'cms':
+      return route.tab === 'content' ? '/cms' : `/cms/${route.tab}`;
+  }
+}
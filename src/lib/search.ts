@@ -0,0 +1,144 @@
+import type { ContentItem } from '@/types';
+import { foldAccents } from '@/lib/slug';
+import { stripMarkup } from '@/lib/markdown';
+
+// Where a word was found weighs on the ranking
+const FIELD_WEIGHTS = { title: 5, tags: 3, excerpt: 2, body: 1 } as const;
+
+/**
+ * Suffixes removed by the stemmer, longest first. English and Italian share
+ * one list: pieces do not record their language, and the same rules run on
+ * the query, so "poems" finds "poem" and "notti" finds "notte".
+ */
+const SUFFIXES = [
+  'amente', 'mente', 'zioni', 'zione', 'ingly', 'ness', 'ment', 'ando', 'endo', 'ing', 'ies', 'edly',
+  'ato', 'ata', 'ati', 'ate', 'ito', 'ita', 'iti', 'ite', 'uto', 'uta', 'uti', 'ute',
+  'are', 'ere', 'ire', 'ed', 'es', 'ly', 's', 'a', 'e', 'i', 'o'
+].sort((a, b) => b.length - a.length);
+
+// Stems shorter than this are left whole, so "rose" and "rosa" do not collapse into "r"
+const MIN_STEM = 3;
+
+// Fewer characters than this in the last query word is not worth a prefix match
+const MIN_PREFIX = 2;
+
+export function stem(word: string): string {
+  for (const suffix of SUFFIXES) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= MIN_STEM) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
+
+// Accent-free lowercase words; apostrophes split them ("l'alba" -> "l", "alba")
+export function tokenize(text: string): string[] {
+  return foldAccents(text).split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+export interface SearchIndex {
+  // Stem -> item id -> score
+  terms: Map<string, Map<string, number>>;
+  items: Map<string, ContentItem>;
+}
+
+export function buildSearchIndex(items: ContentItem[]): SearchIndex {
+  const terms = new Map<string, Map<string, number>>();
+  const add = (text: string | undefined, weight: number, id: string) => {
+    if (!text) return;
+    for (const word of tokenize(text)) {
+      const term = stem(word);
+      let postings = terms.get(term);
+      if (!postings) terms.set(term, (postings = new Map()));
+      postings.set(id, (postings.get(id) ?? 0) + weight);
+    }
+  };
+
+  for (const item of items) {
+    add(item.title, FIELD_WEIGHTS.title, item.id);
+    add(item.tags?.join(' '), FIELD_WEIGHTS.tags, item.id);
+    add(item.excerpt && stripMarkup(item.excerpt), FIELD_WEIGHTS.excerpt, item.id);
+    add(stripMarkup(item.body), FIELD_WEIGHTS.body, item.id);
+  }
+  return { terms, items: new Map(items.map((item) => [item.id, item])) };
+}
+
+interface QueryTerm {
+  stem: string;
+  // The word still being typed also matches longer words
+  prefix: boolean;
+}
+
+function parseQuery(query: string): QueryTerm[] {
+  const words = tokenize(query);
+  return words.map((word, index) => ({
+    stem: stem(word),
+    prefix: index === words.length - 1 && word.length >= MIN_PREFIX
+  }));
+}
+
+function matchesTerm(term: string, query: QueryTerm): boolean {
+  return term === query.stem || (query.prefix && term.startsWith(query.stem));
+}
+
+/**
+ * Items containing every word of the query, best match first. The last word
+ * also matches as a prefix, so results follow typing.
+ */
+export function searchItems(index: SearchIndex, query: string): ContentItem[] {
+  const queryTerms = parseQuery(query);
+  if (queryTerms.length === 0) return [];
+
+  // Score per item for each query word; an item must appear in all of them
+  const perTerm = queryTerms.map((queryTerm) => {
+    const scores = new Map<string, number>();
+    for (const [term, postings] of index.terms) {
+      if (!matchesTerm(term, queryTerm)) continue;
+      for (const [id, score] of postings) scores.set(id, (scores.get(id) ?? 0) + score);
+    }
+    return scores;
+  });
+
+  const [first, ...rest] = perTerm;
+  return [...first]
+    .filter(([id]) => rest.every((scores) => scores.has(id)))
+    .map(([id, score]) => [id, rest.reduce((total, scores) => total + scores.get(id)!, score)] as const)
+    .sort((a, b) => b[1] - a[1])
+    .map(([id]) => index.items.get(id)!);
+}
+
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * A window of `text` around the first word matching the query, split so the
+ * matching words can be highlighted. Falls back to the opening of the text.
+ */
+export function searchSnippet(text: string, query: string, length = 160): SnippetPart[] {
+  const queryTerms = parseQuery(query);
+  const words = [...text.matchAll(/[\p{L}\p{N}]+/gu)];
+  const isMatch = (word: string) =>
+    tokenize(word).some((token) => queryTerms.some((queryTerm) => matchesTerm(stem(token), queryTerm)));
+
+  const first = words.find((word) => isMatch(word[0]));
+  let start = first ? Math.max(0, first.index - Math.floor(length / 3)) : 0;
+  // Start on a word boundary
+  if (start > 0) start = text.indexOf(' ', start) + 1 || start;
+  const end = Math.min(text.length, start + length);
+
+  const parts: SnippetPart[] = [];
+  let cursor = start;
+  for (const word of words) {
+    if (word.index < start || word.index + word[0].length > end || !isMatch(word[0])) continue;
+    if (word.index > cursor) parts.push({ text: text.slice(cursor, word.index), match: false });
+    parts.push({ text: word[0], match: true });
+    cursor = word.index + word[0].length;
+  }
+  if (cursor < end) parts.push({ text: text.slice(cursor, end), match: false });
+
+  if (start > 0) parts.unshift({ text: '...', match: false });
+  if (end < text.length) parts.push({ text: '...', match: false });
+  return parts;
+}
@@ -0,0 +1,13 @@
+// Ctrl on Windows and Linux, Cmd on Apple keyboards
+const IS_MAC = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+export const MOD_LABEL = IS_MAC ? '⌘' : 'Ctrl';
+
+export function isModKey(e: KeyboardEvent): boolean {
+  return IS_MAC ? e.metaKey : e.ctrlKey;
+}
+
+// Open popovers and dialogs handle Escape themselves
+export function isLayerOpen(): boolean {
+  return document.querySelector('[role="dialog"], [role="alertdialog"]') !== null;
+}
@@ -0,0 +1,78 @@
+import type { ContentItem } from '@/types';
+
+// Letters NFD normalization does not decompose into ASCII + accent
+const TRANSLITERATIONS: Record<string, string> = {
+  ß: 'ss', æ: 'ae', œ: 'oe', ø: 'o', ł: 'l', đ: 'd', þ: 'th', ð: 'd'
+};
+
+const MAX_LENGTH = 80;
+
+// Lowercase without accents: "Perché" -> "perche"
+export function foldAccents(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[ßæœøłđþð]/g, (ch) => TRANSLITERATIONS[ch])
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '');
+}
+
+/**
+ * URL-friendly slug: accents are stripped ("perché" -> "perche"), the
+ * Italian apostrophe splits words ("l'alba" -> "l-alba") and anything
+ * else non-alphanumeric becomes a single dash.
+ */
+export function slugify(text: string): string {
+  return foldAccents(text)
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, MAX_LENGTH)
+    .replace(/-+$/, '');
+}
+
+// Title for pieces that have one, otherwise the first words of the body
+export function slugSource(item: Pick<ContentItem, 'title' | 'body' | 'type'>): string {
+  return item.title?.trim() || item.body.split(/\s+/).slice(0, 6).join(' ') || item.type;
+}
+
+// Items saved before slugs existed are addressed by their id
+export function slugOf(item: ContentItem): string {
+  return item.slug || item.id;
+}
+
+// Appends -2, -3, ... until no other item uses the slug, currently or as a redirect
+export function uniqueSlug(base: string, items: ContentItem[], selfId?: string): string {
+  const taken = new Set(
+    items
+      .filter((item) => item.id !== selfId)
+      .flatMap((item) => [slugOf(item), ...(item.previousSlugs ?? [])])
+  );
+  const root = base || 'piece';
+  let candidate = root;
+  for (let n = 2; taken.has(candidate); n++) candidate = `${root}-${n}`;
+  return candidate;
+}
+
+/**
+ * Finds the item a URL slug points to: its current slug first, then a
+ * redirect record left by a slug change, then a bare legacy id.
+ */
+export function findBySlug<T extends ContentItem>(items: T[], slug: string): T | undefined {
+  return (
+    items.find((item) => item.slug === slug) ??
+    items.find((item) => item.previousSlugs?.includes(slug)) ??
+    items.find((item) => item.id === slug)
+  );
+}
+
+// Keeps the old slug as a redirect when it changes
+export function withSlug(item: ContentItem, previous: ContentItem | undefined, slug: string): ContentItem {
+  const oldSlug = previous?.slug;
+  const redirects = new Set(previous?.previousSlugs ?? []);
+  if (oldSlug && oldSlug !== slug) redirects.add(oldSlug);
+  redirects.delete(slug);
+  return {
+    ...item,
+    slug,
+    previousSlugs: redirects.size > 0 ? Array.from(redirects) : undefined
+  };
+}
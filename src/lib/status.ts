@@ -0,0 +1,48 @@
+import { ContentStatus } from '@/types';
+import type { ContentItem, ContentStatusValue } from '@/types';
+
+export const STATUS_LABELS: Record<ContentStatusValue, string> = {
+  [ContentStatus.DRAFT]: 'Draft',
+  [ContentStatus.IN_REVIEW]: 'In Review',
+  [ContentStatus.SCHEDULED]: 'Scheduled',
+  [ContentStatus.PUBLISHED]: 'Published',
+  [ContentStatus.ARCHIVED]: 'Archived'
+};
+
+export const STATUSES = Object.values(ContentStatus);
+
+// Statuses that keep a piece off the public site; the only ones a role
+// without the publish permission may set or edit
+export const UNPUBLISHED_STATUSES: ContentStatusValue[] = [ContentStatus.DRAFT, ContentStatus.IN_REVIEW];
+
+export function getStatus(item: Pick<ContentItem, 'status'>): ContentStatusValue {
+  return item.status ?? ContentStatus.PUBLISHED;
+}
+
+// From when readers may see the piece, or null while it is kept off the
+// site. Firestore stores it as `liveAt`, which the security rules check.
+export function liveSince(item: ContentItem): Date | null {
+  if (item.deletedAt) return null;
+  const status = getStatus(item);
+  if (status !== ContentStatus.PUBLISHED && status !== ContentStatus.SCHEDULED) return null;
+  const since = new Date(item.publishAt ?? 0);
+  return Number.isNaN(since.getTime()) ? null : since;
+}
+
+// Whether readers may see the piece at `now`
+export function isLive(item: ContentItem, now: number): boolean {
+  const since = liveSince(item);
+  return since !== null && since.getTime() <= now;
+}
+
+// Conversions for <input type="datetime-local">, which works in local time
+export function toDateTimeInput(iso?: string): string {
+  if (!iso) return '';
+  const date = new Date(iso);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+export function fromDateTimeInput(value: string): string | undefined {
+  return value ? new Date(value).toISOString() : undefined;
+}
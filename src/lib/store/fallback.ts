@@ -0,0 +1,132 @@
+import type { ContentStore } from './types';
+
+interface FallbackOptions {
+  // Copy what the fallbacks serve into `primary` before its first write, so
+  // a fresh local archive starts from the visible content instead of a
+  // single item
+  seedOnWrite?: boolean;
+}
+
+/**
+ * Writes go to `primary`; reads fall through to the next store while the
+ * previous one has nothing to offer (no items, no settings document, ...).
+ * Once `primary` holds anything, or has been written to, it is the archive:
+ * an empty list or a missing piece there is real, e.g. after a purge, and
+ * the fallbacks are no longer consulted.
+ */
+export function withFallback(
+  primary: ContentStore,
+  fallbacks: ContentStore[],
+  options: FallbackOptions = {}
+): ContentStore {
+  const chain = [primary, ...fallbacks];
+  let seeding: Promise<void> | null = null;
+  let primaryInUse = false;
+
+  // Only a positive answer is kept; a failed or empty read asks again later
+  async function isPrimaryInUse(): Promise<boolean> {
+    if (primaryInUse) return true;
+    try {
+      const [items, settings, meta, collections] = await Promise.all([
+        primary.listItems(),
+        primary.getSettings(),
+        primary.getMeta(),
+        primary.listCollections()
+      ]);
+      primaryInUse = items.length > 0 || settings !== null || meta !== null || collections.length > 0;
+    } catch (e) {
+      console.warn(`The "${primary.kind}" store could not be read:`, e);
+    }
+    return primaryInUse;
+  }
+
+  async function fromFallbacks<T>(
+    read: (store: ContentStore) => Promise<T>,
+    isEmpty: (value: T) => boolean,
+    initial: T
+  ): Promise<T> {
+    let value = initial;
+    for (const store of fallbacks) {
+      if (!isEmpty(value)) break;
+      try {
+        value = await read(store);
+      } catch (e) {
+        console.warn(`Fallback "${store.kind}" store failed:`, e);
+      }
+    }
+    return value;
+  }
+
+  async function firstNonEmpty<T>(
+    read: (store: ContentStore) => Promise<T>,
+    isEmpty: (value: T) => boolean
+  ): Promise<T> {
+    const value = await read(primary);
+    if (!isEmpty(value)) {
+      primaryInUse = true;
+      return value;
+    }
+    return (await isPrimaryInUse()) ? value : fromFallbacks(read, isEmpty, value);
+  }
+
+  async function seed(): Promise<void> {
+    const [items, settings, meta, collections] = await Promise.all([
+      primary.listItems(),
+      primary.getSettings(),
+      primary.getMeta(),
+      primary.listCollections()
+    ]);
+    if (items.length === 0) {
+      const seedItems = await fromFallbacks((s) => s.listItems(), (v) => v.length === 0, items);
+      for (const item of seedItems) await primary.saveItem(item);
+    }
+    if (!settings) {
+      const seedSettings = await fromFallbacks((s) => s.getSettings(), (v) => v === null, settings);
+      if (seedSettings) await primary.saveSettings(seedSettings);
+    }
+    if (!meta) {
+      const seedMeta = await fromFallbacks((s) => s.getMeta(), (v) => v === null, meta);
+      if (seedMeta) await primary.saveMeta(seedMeta);
+    }
+    if (collections.length === 0) {
+      const seedCollections = await fromFallbacks((s) => s.listCollections(), (v) => v.length === 0, collections);
+      for (const series of seedCollections) await primary.saveCollection(series);
+    }
+  }
+
+  // Seeding runs once; a failed attempt (e.g. quota) is retried on the next write
+  function seeded<A extends unknown[]>(write: (...args: A) => Promise<void>) {
+    return async (...args: A) => {
+      if (options.seedOnWrite) {
+        seeding ??= seed().catch((e) => {
+          seeding = null;
+          throw e;
+        });
+        await seeding;
+      }
+      await write(...args);
+      primaryInUse = true;
+    };
+  }
+
+  return {
+    ...primary,
+    init: async () => {
+      await Promise.all(chain.map((store) => store.init()));
+    },
+    listItems: () => firstNonEmpty((s) => s.listItems(), (items) => items.length === 0),
+    getItem: (id) => firstNonEmpty((s) => s.getItem(id), (item) => item === null),
+    getItemBySlug: (slug) => firstNonEmpty((s) => s.getItemBySlug(slug), (item) => item === null),
+    getSettings: () => firstNonEmpty((s) => s.getSettings(), (settings) => settings === null),
+    getMeta: () => firstNonEmpty((s) => s.getMeta(), (meta) => meta === null),
+    listCollections: () => firstNonEmpty((s) => s.listCollections(), (collections) => collections.length === 0),
+    saveItem: seeded(primary.saveItem),
+    saveItems: seeded(primary.saveItems),
+    deleteItem: seeded(primary.deleteItem),
+    saveSettings: seeded(primary.saveSettings),
+    saveMeta: seeded(primary.saveMeta),
+    addRevision: seeded(primary.addRevision),
+    saveCollection: seeded(primary.saveCollection),
+    deleteCollection: seeded(primary.deleteCollection)
+  };
+}
@@ -0,0 +1,257 @@
+import { db, auth } from '@/lib/firebase';
+import {
+  collection,
+  getDocs,
+  doc,
+  getDoc,
+  setDoc,
+  deleteDoc,
+  onSnapshot,
+  query,
+  where,
+  limit,
+  writeBatch,
+  deleteField,
+  Timestamp,
+  FirestoreError
+} from 'firebase/firestore';
+import type { DocumentSnapshot, QueryConstraint } from 'firebase/firestore';
+import { onAuthStateChanged } from 'firebase/auth';
+import { liveSince } from '@/lib/status';
+import { inBatches } from '@/lib/bulk';
+import { hasPermission } from '@/lib/permissions';
+import type { ContentItem, SiteSettings, ContentMeta, Revision, Collection, CmsUser } from '@/types';
+import { newestFirst } from './order';
+import type { ContentStore, StoreListeners } from './types';
+
+// Firestore rejects undefined field values; optional fields are simply omitted
+function withoutUndefined<T extends object>(data: T): T {
+  return Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined)) as T;
+}
+
+// Pieces carry `liveAt` so the security rules and the readers' queries can
+// tell live pieces apart; the app derives it and never reads it back
+function liveAtOf(item: ContentItem): Timestamp | undefined {
+  const since = liveSince(item);
+  return since ? Timestamp.fromDate(since) : undefined;
+}
+
+function toDocument(item: ContentItem) {
+  return withoutUndefined({ ...item, liveAt: liveAtOf(item) });
+}
+
+function toItem(snap: DocumentSnapshot): ContentItem {
+  const data = { ...snap.data() };
+  delete data.liveAt;
+  return { ...data, id: snap.id } as ContentItem;
+}
+
+// Readers without a CMS role may only query live pieces. The bound comes
+// from the reader's clock while the rules use the server's, so it trails by
+// a margin: a clock running a little fast is not refused, and scheduled
+// pieces show up at most that much later.
+const LIVE_QUERY_MARGIN_MS = 5 * 60_000;
+const liveOnly = () => where('liveAt', '<=', Timestamp.fromMillis(Date.now() - LIVE_QUERY_MARGIN_MS));
+
+const isDenied = (e: unknown) => e instanceof FirestoreError && e.code === 'permission-denied';
+
+export function createFirestoreStore(): ContentStore {
+  // Wait for the auth state to be restored so reads made by a signed-in
+  // author run with the correct security context; readers only get live
+  // pieces
+  const init = () =>
+    new Promise<void>((resolve) => {
+      const unsubscribe = onAuthStateChanged(auth, () => {
+        unsubscribe();
+        resolve();
+      });
+    });
+
+  // Whether the signed-in user may update any piece, as the rules allow
+  // editors and owners (legacy config/admins members included)
+  const editorChecks = new Map<string, Promise<boolean>>();
+  const canEditAll = () => {
+    const user = auth.currentUser;
+    if (!user) return Promise.resolve(false);
+    let check = editorChecks.get(user.uid);
+    if (!check) {
+      check = (async () => {
+        const profile = await getDoc(doc(db, 'users', user.uid));
+        if (profile.exists()) return hasPermission((profile.data() as CmsUser).role, 'content.publish');
+        const admins = await getDoc(doc(db, 'config', 'admins')).catch(() => null);
+        const uids = admins?.exists() ? (admins.data().uids as string[] | undefined) : undefined;
+        return Array.isArray(uids) && uids.includes(user.uid);
+      })().catch(() => false);
+      editorChecks.set(user.uid, check);
+    }
+    return check;
+  };
+
+  // Pieces saved before liveAt existed (or edited outside the app) get it
+  // written back when an editor or owner loads the archive
+  const backfillLiveAt = async (docs: DocumentSnapshot[]) => {
+    const stale = docs.filter((d) => {
+      const stored = d.get('liveAt') as Timestamp | undefined;
+      return stored?.toMillis() !== liveAtOf(toItem(d))?.toMillis();
+    });
+    if (stale.length === 0 || !(await canEditAll())) return;
+    for (const group of inBatches(stale)) {
+      const batch = writeBatch(db);
+      for (const d of group) batch.update(d.ref, { liveAt: liveAtOf(toItem(d)) ?? deleteField() });
+      await batch.commit().catch((e) => console.warn('Could not backfill liveAt:', e));
+    }
+  };
+
+  // CMS users read every piece; the security rules limit anyone else to
+  // live ones, which the query has to ask for explicitly
+  const queryContent = async (...constraints: QueryConstraint[]) => {
+    const content = collection(db, 'content');
+    if (auth.currentUser) {
+      try {
+        const snap = await getDocs(query(content, ...constraints));
+        if (constraints.length === 0) backfillLiveAt(snap.docs);
+        return snap;
+      } catch (e) {
+        if (!isDenied(e)) throw e;
+      }
+    }
+    return getDocs(query(content, ...constraints, liveOnly()));
+  };
+
+  // Snapshot listeners on the content and collections Firestore collections
+  // and both config documents. The content listener follows the session:
+  // CMS users see every piece, readers the live ones, with the query renewed
+  // so scheduled pieces appear as their time comes.
+  const subscribe = (listeners: StoreListeners) => {
+    let unsubscribeContent = () => {};
+    let renewal: ReturnType<typeof setTimeout> | undefined;
+    const listenToContent = (readsAll: boolean) => {
+      unsubscribeContent();
+      clearTimeout(renewal);
+      if (!readsAll) renewal = setTimeout(() => listenToContent(false), LIVE_QUERY_MARGIN_MS);
+      const content = collection(db, 'content');
+      unsubscribeContent = onSnapshot(
+        readsAll ? content : query(content, liveOnly()),
+        (snap) => {
+          if (readsAll) backfillLiveAt(snap.docs);
+          listeners.onItems(snap.docs.map(toItem));
+        },
+        (e) => (readsAll && isDenied(e) ? listenToContent(false) : listeners.onError(e))
+      );
+    };
+
+    const unsubscribers = [
+      onAuthStateChanged(auth, (user) => listenToContent(Boolean(user))),
+      () => {
+        clearTimeout(renewal);
+        unsubscribeContent();
+      },
+      onSnapshot(
+        doc(db, 'config', 'settings'),
+        (snap) => listeners.onSettings(snap.exists() ? (snap.data() as SiteSettings) : null),
+        listeners.onError
+      ),
+      onSnapshot(
+        doc(db, 'config', 'meta'),
+        (snap) => listeners.onMeta(snap.exists() ? (snap.data() as ContentMeta) : null),
+        listeners.onError
+      ),
+      onSnapshot(
+        collection(db, 'collections'),
+        (snap) => listeners.onCollections(snap.docs.map((d) => ({ ...d.data(), id: d.id }) as Collection)),
+        listeners.onError
+      )
+    ];
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  };
+
+  return {
+    kind: 'firestore',
+    readOnly: false,
+    init,
+    listItems: async () => {
+      const snap = await queryContent();
+      return snap.docs.map(toItem);
+    },
+    // A piece the user may not read is reported as missing
+    getItem: async (id) => {
+      try {
+        const snap = await getDoc(doc(db, 'content', id));
+        return snap.exists() ? toItem(snap) : null;
+      } catch (e) {
+        if (isDenied(e)) return null;
+        throw e;
+      }
+    },
+    getItemBySlug: async (slug) => {
+      const lookups = [
+        [where('slug', '==', slug), limit(1)],
+        [where('previousSlugs', 'array-contains', slug), limit(1)]
+      ];
+      for (const constraints of lookups) {
+        const snap = await queryContent(...constraints);
+        if (!snap.empty) return toItem(snap.docs[0]);
+      }
+      try {
+        const legacy = await getDoc(doc(db, 'content', slug));
+        return legacy.exists() ? toItem(legacy) : null;
+      } catch (e) {
+        if (isDenied(e)) return null;
+        throw e;
+      }
+    },
+    saveItem: async (item) => {
+      await setDoc(doc(db, 'content', item.id), toDocument(item));
+    },
+    // A batch is atomic but takes at most 500 writes; callers split larger sets
+    saveItems: async (items) => {
+      const batch = writeBatch(db);
+      for (const item of items) batch.set(doc(db, 'content', item.id), toDocument(item));
+      await batch.commit();
+    },
+    // Firestore keeps subcollections of deleted documents, so the revisions
+    // go first; the piece itself is removed once they are gone
+    deleteItem: async (id) => {
+      const revisions = await getDocs(collection(db, 'content', id, 'revisions'));
+      for (const group of inBatches(revisions.docs)) {
+        const batch = writeBatch(db);
+        for (const revision of group) batch.delete(revision.ref);
+        await batch.commit();
+      }
+      await deleteDoc(doc(db, 'content', id));
+    },
+    getSettings: async () => {
+      const snap = await getDoc(doc(db, 'config', 'settings'));
+      return snap.exists() ? (snap.data() as SiteSettings) : null;
+    },
+    saveSettings: async (settings) => {
+      await setDoc(doc(db, 'config', 'settings'), settings);
+    },
+    getMeta: async () => {
+      const snap = await getDoc(doc(db, 'config', 'meta'));
+      return snap.exists() ? (snap.data() as ContentMeta) : null;
+    },
+    saveMeta: async (meta) => {
+      await setDoc(doc(db, 'config', 'meta'), meta);
+    },
+    // Revisions live in a content/{id}/revisions subcollection
+    listRevisions: async (itemId) => {
+      const snap = await getDocs(collection(db, 'content', itemId, 'revisions'));
+      return newestFirst(snap.docs.map((d) => ({ ...d.data(), id: d.id }) as Revision));
+    },
+    addRevision: async (revision) => {
+      await setDoc(doc(db, 'content', revision.itemId, 'revisions', revision.id), withoutUndefined(revision));
+    },
+    listCollections: async () => {
+      const snap = await getDocs(collection(db, 'collections'));
+      return snap.docs.map((d) => ({ ...d.data(), id: d.id }) as Collection);
+    },
+    saveCollection: async (series) => {
+      await setDoc(doc(db, 'collections', series.id), withoutUndefined(series));
+    },
+    deleteCollection: async (id) => {
+      await deleteDoc(doc(db, 'collections', id));
+    },
+    subscribe
+  };
+}
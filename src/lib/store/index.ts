@@ -0,0 +1,42 @@
+import { isFirebaseConfigured } from '@/lib/firebase';
+import { createFirestoreStore } from './firestore';
+import { createLocalStorageStore } from './localStorage';
+import { createIndexedDBStore, isIndexedDBAvailable } from './indexedDB';
+import { createStaticStore } from './static';
+import { createMemoryStore } from './memory';
+import { withFallback } from './fallback';
+import type { ContentStore, StoreKind } from './types';
+
+export type { ContentStore, StoreKind } from './types';
+export { ReadOnlyStoreError, StorageQuotaError } from './types';
+export { createFirestoreStore, createLocalStorageStore, createIndexedDBStore, createStaticStore, createMemoryStore, withFallback };
+export { sortByContentOrder, moveId } from './order';
+
+export { isFirebaseConfigured };
+
+const STORE_KINDS: StoreKind[] = ['firestore', 'local', 'static', 'memory'];
+
+// VITE_CONTENT_STORE wins; otherwise Firestore when configured, else a
+// browser-persisted archive seeded from the static files
+export function resolveStoreKind(): StoreKind {
+  const configured = import.meta.env.VITE_CONTENT_STORE as StoreKind | undefined;
+  if (configured && STORE_KINDS.includes(configured)) return configured;
+  return isFirebaseConfigured ? 'firestore' : 'local';
+}
+
+export function createContentStore(kind: StoreKind = resolveStoreKind()): ContentStore {
+  switch (kind) {
+    case 'firestore':
+      return withFallback(createFirestoreStore(), [createLocalStorageStore(), createStaticStore()]);
+    case 'local':
+      // IndexedDB when available; legacy cms_* localStorage data is read
+      // through and migrated on the first write
+      return isIndexedDBAvailable
+        ? withFallback(createIndexedDBStore(), [createLocalStorageStore(), createStaticStore()], { seedOnWrite: true })
+        : withFallback(createLocalStorageStore(), [createStaticStore()], { seedOnWrite: true });
+    case 'static':
+      return createStaticStore();
+    case 'memory':
+      return withFallback(createMemoryStore(), [createStaticStore()], { seedOnWrite: true });
+  }
+}
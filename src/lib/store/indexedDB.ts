@@ -0,0 +1,95 @@
+import type { ContentItem, SiteSettings, ContentMeta, Revision, Collection } from '@/types';
+import { newestFirst } from './order';
+import { findBySlug } from '@/lib/slug';
+import { StorageQuotaError, isQuotaExceeded } from './types';
+import type { ContentStore } from './types';
+
+const DB_NAME = 'digital-silence-cms';
+const DB_VERSION = 3;
+const CONTENT = 'content';
+const CONFIG = 'config';
+const REVISIONS = 'revisions';
+const COLLECTIONS = 'collections';
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(CONTENT)) db.createObjectStore(CONTENT, { keyPath: 'id' });
+    if (!db.objectStoreNames.contains(CONFIG)) db.createObjectStore(CONFIG);
+    if (!db.objectStoreNames.contains(REVISIONS)) {
+      db.createObjectStore(REVISIONS, { keyPath: 'id' }).createIndex('itemId', 'itemId');
+    }
+    if (!db.objectStoreNames.contains(COLLECTIONS)) db.createObjectStore(COLLECTIONS, { keyPath: 'id' });
+  };
+  return promisify(request);
+}
+
+export const isIndexedDBAvailable = typeof indexedDB !== 'undefined';
+
+// Browser store for larger archives; same layout as Firestore's content/config
+export function createIndexedDBStore(): ContentStore {
+  let connection: Promise<IDBDatabase> | null = null;
+  const database = () => (connection ??= openDatabase());
+
+  async function read<T>(storeName: string, query: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await database();
+    return promisify(query(db.transaction(storeName, 'readonly').objectStore(storeName)));
+  }
+
+  function completion(tx: IDBTransaction): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onabort = tx.onerror = () => {
+        reject(isQuotaExceeded(tx.error) ? new StorageQuotaError('local') : tx.error);
+      };
+    });
+  }
+
+  async function write(storeName: string, mutate: (store: IDBObjectStore) => void): Promise<void> {
+    const db = await database();
+    const tx = db.transaction(storeName, 'readwrite');
+    mutate(tx.objectStore(storeName));
+    await completion(tx);
+  }
+
+  return {
+    kind: 'local',
+    readOnly: false,
+    init: async () => {
+      await database();
+    },
+    listItems: () => read<ContentItem[]>(CONTENT, (s) => s.getAll()),
+    getItem: async (id) => (await read<ContentItem | undefined>(CONTENT, (s) => s.get(id))) ?? null,
+    getItemBySlug: async (slug) => findBySlug(await read<ContentItem[]>(CONTENT, (s) => s.getAll()), slug) ?? null,
+    saveItem: (item) => write(CONTENT, (s) => s.put(item)),
+    saveItems: (items) => write(CONTENT, (s) => items.forEach((item) => s.put(item))),
+    // The item and its revisions go in one transaction
+    deleteItem: async (id) => {
+      const db = await database();
+      const tx = db.transaction([CONTENT, REVISIONS], 'readwrite');
+      tx.objectStore(CONTENT).delete(id);
+      const revisions = tx.objectStore(REVISIONS);
+      const keys = revisions.index('itemId').getAllKeys(id);
+      keys.onsuccess = () => keys.result.forEach((key) => revisions.delete(key));
+      await completion(tx);
+    },
+    getSettings: async () => (await read<SiteSettings | undefined>(CONFIG, (s) => s.get('settings'))) ?? null,
+    saveSettings: (settings) => write(CONFIG, (s) => s.put(settings, 'settings')),
+    getMeta: async () => (await read<ContentMeta | undefined>(CONFIG, (s) => s.get('meta'))) ?? null,
+    saveMeta: (meta) => write(CONFIG, (s) => s.put(meta, 'meta')),
+    listRevisions: async (itemId) =>
+      newestFirst(await read<Revision[]>(REVISIONS, (s) => s.index('itemId').getAll(itemId))),
+    addRevision: (revision) => write(REVISIONS, (s) => s.add(revision)),
+    listCollections: () => read<Collection[]>(COLLECTIONS, (s) => s.getAll()),
+    saveCollection: (collection) => write(COLLECTIONS, (s) => s.put(collection)),
+    deleteCollection: (id) => write(COLLECTIONS, (s) => s.delete(id))
+  };
+}
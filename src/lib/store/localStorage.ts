@@ -0,0 +1,72 @@
+import type { ContentItem, SiteSettings, ContentMeta, Revision, Collection } from '@/types';
+import { newestFirst } from './order';
+import { findBySlug } from '@/lib/slug';
+import { StorageQuotaError, isQuotaExceeded } from './types';
+import type { ContentStore } from './types';
+
+const KEYS = {
+  content: 'cms_content',
+  settings: 'cms_settings',
+  meta: 'cms_meta',
+  revisions: 'cms_revisions',
+  collections: 'cms_collections'
+} as const;
+
+function read<T>(key: string): T | null {
+  const raw = localStorage.getItem(key);
+  return raw ? (JSON.parse(raw) as T) : null;
+}
+
+function write(key: string, value: unknown): void {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (e) {
+    throw isQuotaExceeded(e) ? new StorageQuotaError('local') : e;
+  }
+}
+
+// Browser-only store keeping the whole archive under the legacy cms_* keys
+export function createLocalStorageStore(): ContentStore {
+  const readItems = () => read<ContentItem[]>(KEYS.content) ?? [];
+  const readCollections = () => read<Collection[]>(KEYS.collections) ?? [];
+
+  return {
+    kind: 'local',
+    readOnly: false,
+    init: async () => {},
+    listItems: async () => readItems(),
+    getItem: async (id) => readItems().find((item) => item.id === id) ?? null,
+    getItemBySlug: async (slug) => findBySlug(readItems(), slug) ?? null,
+    saveItem: async (item) => {
+      const current = readItems();
+      const exists = current.some((i) => i.id === item.id);
+      write(KEYS.content, exists ? current.map((i) => (i.id === item.id ? item : i)) : [item, ...current]);
+    },
+    saveItems: async (items) => {
+      const updates = new Map(items.map((item) => [item.id, item]));
+      const current = readItems();
+      const added = items.filter((item) => !current.some((i) => i.id === item.id));
+      write(KEYS.content, [...added, ...current.map((i) => updates.get(i.id) ?? i)]);
+    },
+    deleteItem: async (id) => {
+      write(KEYS.content, readItems().filter((item) => item.id !== id));
+      write(KEYS.revisions, (read<Revision[]>(KEYS.revisions) ?? []).filter((r) => r.itemId !== id));
+    },
+    getSettings: async () => read<SiteSettings>(KEYS.settings),
+    saveSettings: async (settings) => write(KEYS.settings, settings),
+    getMeta: async () => read<ContentMeta>(KEYS.meta),
+    saveMeta: async (meta) => write(KEYS.meta, meta),
+    listRevisions: async (itemId) =>
+      newestFirst((read<Revision[]>(KEYS.revisions) ?? []).filter((r) => r.itemId === itemId)),
+    addRevision: async (revision) => {
+      write(KEYS.revisions, [...(read<Revision[]>(KEYS.revisions) ?? []), revision]);
+    },
+    listCollections: async () => readCollections(),
+    saveCollection: async (collection) => {
+      write(KEYS.collections, [...readCollections().filter((c) => c.id !== collection.id), collection]);
+    },
+    deleteCollection: async (id) => {
+      write(KEYS.collections, readCollections().filter((c) => c.id !== id));
+    }
+  };
+}
@@ -0,0 +1,86 @@
+import type { ContentItem, SiteSettings, ContentMeta, Revision, Collection } from '@/types';
+import { newestFirst } from './order';
+import { findBySlug } from '@/lib/slug';
+import type { ContentStore, StoreListeners } from './types';
+
+interface MemorySeed {
+  items?: ContentItem[];
+  settings?: SiteSettings | null;
+  meta?: ContentMeta | null;
+  collections?: Collection[];
+}
+
+// Volatile store, used for unsaved local sessions and for trying CMS flows without a backend
+export function createMemoryStore(seed: MemorySeed = {}): ContentStore {
+  const items = new Map<string, ContentItem>(
+    (seed.items ?? []).map((item) => [item.id, item])
+  );
+  let settings = seed.settings ?? null;
+  let meta = seed.meta ?? null;
+  const revisions: Revision[] = [];
+  const collections = new Map<string, Collection>(
+    (seed.collections ?? []).map((collection) => [collection.id, collection])
+  );
+  const subscribers = new Set<StoreListeners>();
+
+  const notify = () => {
+    for (const listeners of subscribers) {
+      listeners.onItems(Array.from(items.values()));
+      listeners.onSettings(settings);
+      listeners.onMeta(meta);
+      listeners.onCollections(Array.from(collections.values()));
+    }
+  };
+
+  return {
+    kind: 'memory',
+    readOnly: false,
+    init: async () => {},
+    listItems: async () => Array.from(items.values()),
+    getItem: async (id) => items.get(id) ?? null,
+    getItemBySlug: async (slug) => findBySlug(Array.from(items.values()), slug) ?? null,
+    saveItem: async (item) => {
+      items.set(item.id, item);
+      notify();
+    },
+    saveItems: async (next) => {
+      for (const item of next) items.set(item.id, item);
+      notify();
+    },
+    deleteItem: async (id) => {
+      items.delete(id);
+      revisions.splice(0, revisions.length, ...revisions.filter((r) => r.itemId !== id));
+      notify();
+    },
+    getSettings: async () => settings,
+    saveSettings: async (next) => {
+      settings = next;
+      notify();
+    },
+    getMeta: async () => meta,
+    saveMeta: async (next) => {
+      meta = next;
+      notify();
+    },
+    listRevisions: async (itemId) => newestFirst(revisions.filter((r) => r.itemId === itemId)),
+    addRevision: async (revision) => {
+      revisions.push(revision);
+    },
+    listCollections: async () => Array.from(collections.values()),
+    saveCollection: async (collection) => {
+      collections.set(collection.id, collection);
+      notify();
+    },
+    deleteCollection: async (id) => {
+      collections.delete(id);
+      notify();
+    },
+    subscribe: (listeners) => {
+      subscribers.add(listeners);
+      notify();
+      return () => {
+        subscribers.delete(listeners);
+      };
+    }
+  };
+}
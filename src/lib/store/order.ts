@@ -0,0 +1,23 @@
+import type { ContentItem, Revision } from '@/types';
+
+// Sort items by their position in ContentMeta.contentOrder; unknown ids go last
+export function sortByContentOrder(items: ContentItem[], contentOrder: string[]): ContentItem[] {
+  if (contentOrder.length === 0) return items;
+  const orderMap = new Map(contentOrder.map((id, index) => [id, index]));
+  return [...items].sort((a, b) => {
+    const orderA = orderMap.get(a.id) ?? Infinity;
+    const orderB = orderMap.get(b.id) ?? Infinity;
+    return orderA - orderB;
+  });
+}
+
+// Moves `id` to `toIndex` (clamped), shifting the others
+export function moveId(order: string[], id: string, toIndex: number): string[] {
+  const rest = order.filter((itemId) => itemId !== id);
+  const position = Math.min(Math.max(toIndex, 0), rest.length);
+  return [...rest.slice(0, position), id, ...rest.slice(position)];
+}
+
+export function newestFirst(revisions: Revision[]): Revision[] {
+  return [...revisions].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
@@ -0,0 +1,64 @@
+import type { ContentItem, SiteSettings, ContentMeta, Collection } from '@/types';
+import { findBySlug } from '@/lib/slug';
+import { ReadOnlyStoreError } from './types';
+import type { ContentStore } from './types';
+
+// Generated at dev and build time by plugins/contentManifest.ts
+interface ContentManifest {
+  files: string[];
+}
+
+async function fetchJSON<T>(url: string): Promise<T | null> {
+  const res = await fetch(url);
+  return res.ok ? ((await res.json()) as T) : null;
+}
+
+// Where the app serves public/<VITE_CONTENT_PATH>, the directory the
+// manifest plugin scans; vite.config.ts defaults the path to "content"
+const CONTENT_URL = `${import.meta.env.BASE_URL}${import.meta.env.VITE_CONTENT_PATH || 'content'}`;
+
+// Read-only store backed by the JSON files shipped in public/content
+export function createStaticStore(baseUrl = CONTENT_URL): ContentStore {
+  const readOnly = async (): Promise<never> => {
+    throw new ReadOnlyStoreError('static');
+  };
+
+  const listItems = async (): Promise<ContentItem[]> => {
+    const manifest = await fetchJSON<ContentManifest>(`${baseUrl}/index.json`);
+    if (!manifest) {
+      console.warn(`No content manifest at ${baseUrl}/index.json`);
+      return [];
+    }
+
+    const loaded = await Promise.all(
+      manifest.files.map((file) =>
+        fetchJSON<ContentItem>(`${baseUrl}/${file}`).catch((e) => {
+          console.warn(`Could not load ${file}, ${e}`);
+          return null;
+        })
+      )
+    );
+    return loaded.filter((item): item is ContentItem => item !== null);
+  };
+
+  return {
+    kind: 'static',
+    readOnly: true,
+    init: async () => {},
+    listItems,
+    getItem: async (id) => (await listItems()).find((item) => item.id === id) ?? null,
+    getItemBySlug: async (slug) => findBySlug(await listItems(), slug) ?? null,
+    saveItem: readOnly,
+    saveItems: readOnly,
+    deleteItem: readOnly,
+    getSettings: () => fetchJSON<SiteSettings>(`${baseUrl}/settings.json`),
+    saveSettings: readOnly,
+    getMeta: () => fetchJSON<ContentMeta>(`${baseUrl}/meta.json`),
+    saveMeta: readOnly,
+    listRevisions: async () => [],
+    addRevision: readOnly,
+    listCollections: async () => (await fetchJSON<Collection[]>(`${baseUrl}/collections.json`)) ?? [],
+    saveCollection: readOnly,
+    deleteCollection: readOnly
+  };
+}
@@ -0,0 +1,66 @@
+import type { ContentItem, SiteSettings, ContentMeta, Revision, Collection } from '@/types';
+
+// Identifiers for the backends selectable through VITE_CONTENT_STORE
+export type StoreKind = 'firestore' | 'local' | 'static' | 'memory';
+
+// Callbacks for stores that can push changes as they happen
+export interface StoreListeners {
+  onItems: (items: ContentItem[]) => void;
+  onSettings: (settings: SiteSettings | null) => void;
+  onMeta: (meta: ContentMeta | null) => void;
+  onCollections: (collections: Collection[]) => void;
+  onError: (error: unknown) => void;
+}
+
+/**
+ * Persistence boundary for the CMS. Every backend exposes the same
+ * `content` / `collections` / `config/settings` / `config/meta` layout
+ * used in Firestore.
+ * Methods reject on failure; callers decide how to surface the error.
+ */
+export interface ContentStore {
+  readonly kind: StoreKind;
+  readonly readOnly: boolean;
+  // Resolves once the backend can serve reads (e.g. after auth is ready)
+  init(): Promise<void>;
+  listItems(): Promise<ContentItem[]>;
+  getItem(id: string): Promise<ContentItem | null>;
+  // Current slug, then redirect records, then legacy ids (see lib/slug.ts)
+  getItemBySlug(slug: string): Promise<ContentItem | null>;
+  saveItem(item: ContentItem): Promise<void>;
+  // One write for several items; all or nothing where the backend allows it
+  saveItems(items: ContentItem[]): Promise<void>;
+  // Also removes the item's revisions
+  deleteItem(id: string): Promise<void>;
+  getSettings(): Promise<SiteSettings | null>;
+  saveSettings(settings: SiteSettings): Promise<void>;
+  getMeta(): Promise<ContentMeta | null>;
+  saveMeta(meta: ContentMeta): Promise<void>;
+  // Revisions of one item, newest first; they are never updated
+  listRevisions(itemId: string): Promise<Revision[]>;
+  addRevision(revision: Revision): Promise<void>;
+  listCollections(): Promise<Collection[]>;
+  saveCollection(collection: Collection): Promise<void>;
+  deleteCollection(id: string): Promise<void>;
+  // Optional live mode; returns an unsubscribe function
+  subscribe?(listeners: StoreListeners): () => void;
+}
+
+export class ReadOnlyStoreError extends Error {
+  constructor(kind: StoreKind) {
+    super(`The "${kind}" content store is read-only`);
+    this.name = 'ReadOnlyStoreError';
+  }
+}
+
+// Raised when browser storage refuses a write because it is full
+export class StorageQuotaError extends Error {
+  constructor(kind: StoreKind) {
+    super(`Browser storage is full: the "${kind}" content store could not save`);
+    this.name = 'StorageQuotaError';
+  }
+}
+
+export function isQuotaExceeded(e: unknown): boolean {
+  return e instanceof DOMException && (e.name === 'QuotaExceededError' || e.code === 22);
+}
@@ -0,0 +1,44 @@
+import { slugify } from '@/lib/slug';
+import type { ContentItem } from '@/types';
+
+export interface TagCount {
+  tag: string;
+  slug: string;
+  count: number;
+}
+
+const MAX_TAG_LENGTH = 40;
+
+// Tags are stored lowercase with single spaces, so "Winter " and "winter" match
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/\s+/g, ' ').toLowerCase().slice(0, MAX_TAG_LENGTH);
+}
+
+// Adds a tag unless it is empty or already present
+export function addTag(tags: string[], tag: string): string[] {
+  const normalized = normalizeTag(tag);
+  if (!normalized || tags.some((t) => slugify(t) === slugify(normalized))) return tags;
+  return [...tags, normalized];
+}
+
+export function tagSlug(tag: string): string {
+  return slugify(tag);
+}
+
+// Every tag in use with the number of pieces carrying it, most used first
+export function collectTags(items: ContentItem[]): TagCount[] {
+  const counts = new Map<string, TagCount>();
+  for (const item of items) {
+    for (const tag of new Set(item.tags ?? [])) {
+      const slug = tagSlug(tag);
+      const entry = counts.get(slug);
+      if (entry) entry.count++;
+      else counts.set(slug, { tag, slug, count: 1 });
+    }
+  }
+  return Array.from(counts.values()).sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+export function hasTag(item: ContentItem, slug: string): boolean {
+  return (item.tags ?? []).some((tag) => tagSlug(tag) === slug);
+}
@@ -0,0 +1,28 @@
+import type { ContentItem } from '@/types';
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isTrashed(item: ContentItem): boolean {
+  return Boolean(item.deletedAt);
+}
+
+// Trashed longer than the retention period; a retention of 0 keeps items forever
+export function isExpired(item: ContentItem, retentionDays: number, now: number): boolean {
+  if (!item.deletedAt || retentionDays <= 0) return false;
+  return now - new Date(item.deletedAt).getTime() > retentionDays * DAY_MS;
+}
+
+export function daysLeft(item: ContentItem, retentionDays: number, now: number): number {
+  if (!item.deletedAt) return retentionDays;
+  const elapsed = (now - new Date(item.deletedAt).getTime()) / DAY_MS;
+  return Math.max(0, Math.ceil(retentionDays - elapsed));
+}
+
+// Put an id back where it was in contentOrder, clamped to the current length
+export function reinsert(contentOrder: string[], id: string, index?: number): string[] {
+  const order = contentOrder.filter((itemId) => itemId !== id);
+  const position = index === undefined ? 0 : Math.min(Math.max(index, 0), order.length);
+  return [...order.slice(0, position), id, ...order.slice(position)];
+}
@@ -0,0 +1,68 @@
+import { db } from '@/lib/firebase';
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc
+} from 'firebase/firestore';
+import type { User } from 'firebase/auth';
+import { Role } from '@/types';
+import type { CmsInvite, CmsUser, RoleValue } from '@/types';
+
+// Invites are keyed by lower-cased email so the invitee can find their own
+const inviteId = (email: string) => email.trim().toLowerCase();
+
+/**
+ * Resolves the role of a signed-in user: their users/{uid} document, else a
+ * pending invite for their verified email (claimed on the spot), else the
+ * legacy config/admins allow-list, whose members are owners. Returns null
+ * when the user has no access.
+ */
+export async function resolveRole(user: User): Promise<RoleValue | null> {
+  const profile = await getDoc(doc(db, 'users', user.uid)).catch(() => null);
+  if (profile?.exists()) return (profile.data() as CmsUser).role;
+
+  // Anyone can sign up with an address they do not own
+  if (user.email && user.emailVerified) {
+    const invite = await getDoc(doc(db, 'invites', inviteId(user.email))).catch(() => null);
+    if (invite?.exists()) {
+      const { role } = invite.data() as CmsInvite;
+      await setDoc(doc(db, 'users', user.uid), { uid: user.uid, email: user.email, role });
+      await deleteDoc(doc(db, 'invites', inviteId(user.email)));
+      return role;
+    }
+  }
+
+  const admins = await getDoc(doc(db, 'config', 'admins')).catch(() => null);
+  const uids = admins?.exists() ? (admins.data().uids as string[] | undefined) : undefined;
+  return Array.isArray(uids) && uids.includes(user.uid) ? Role.OWNER : null;
+}
+
+export async function listUsers(): Promise<CmsUser[]> {
+  const snap = await getDocs(collection(db, 'users'));
+  return snap.docs.map((d) => ({ ...d.data(), uid: d.id }) as CmsUser);
+}
+
+export async function listInvites(): Promise<CmsInvite[]> {
+  const snap = await getDocs(collection(db, 'invites'));
+  return snap.docs.map((d) => d.data() as CmsInvite);
+}
+
+export async function inviteUser(email: string, role: RoleValue, invitedBy: string): Promise<void> {
+  const invite: CmsInvite = { email: inviteId(email), role, invitedBy };
+  await setDoc(doc(db, 'invites', invite.email), invite);
+}
+
+export async function revokeInvite(email: string): Promise<void> {
+  await deleteDoc(doc(db, 'invites', inviteId(email)));
+}
+
+export async function setUserRole(user: CmsUser, role: RoleValue): Promise<void> {
+  await setDoc(doc(db, 'users', user.uid), { ...user, role });
+}
+
+export async function removeUser(uid: string): Promise<void> {
+  await deleteDoc(doc(db, 'users', uid));
+}
@@ -0,0 +1,134 @@
+/**
+ * Just enough of the ZIP format for content bundles: archives are written
+ * uncompressed, and read back whether their entries are stored or deflated
+ * (as when a bundle was unpacked, edited and zipped again by another tool).
+ */
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+// Bit 11: names are UTF-8
+const UTF8_FLAG = 0x0800;
+const STORED = 0;
+const DEFLATED = 8;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS time and date fields, in local time as archivers expect
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+export function createZip(entries: ZipEntry[], modified = new Date()): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(modified);
+  const files = entries.map((entry) => ({ ...entry, nameBytes: encoder.encode(entry.name), crc: crc32(entry.data) }));
+
+  const localSize = files.reduce((total, file) => total + 30 + file.nameBytes.length + file.data.length, 0);
+  const centralSize = files.reduce((total, file) => total + 46 + file.nameBytes.length, 0);
+  const bytes = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+
+  const offsets: number[] = [];
+  for (const file of files) {
+    offsets.push(offset);
+    view.setUint32(offset, LOCAL_HEADER, true);
+    view.setUint16(offset + 4, 20, true);
+    view.setUint16(offset + 6, UTF8_FLAG, true);
+    view.setUint16(offset + 8, STORED, true);
+    view.setUint16(offset + 10, time, true);
+    view.setUint16(offset + 12, date, true);
+    view.setUint32(offset + 14, file.crc, true);
+    view.setUint32(offset + 18, file.data.length, true);
+    view.setUint32(offset + 22, file.data.length, true);
+    view.setUint16(offset + 26, file.nameBytes.length, true);
+    view.setUint16(offset + 28, 0, true);
+    bytes.set(file.nameBytes, offset + 30);
+    bytes.set(file.data, offset + 30 + file.nameBytes.length);
+    offset += 30 + file.nameBytes.length + file.data.length;
+  }
+
+  const centralStart = offset;
+  files.forEach((file, index) => {
+    view.setUint32(offset, CENTRAL_HEADER, true);
+    view.setUint16(offset + 4, 20, true);
+    view.setUint16(offset + 6, 20, true);
+    view.setUint16(offset + 8, UTF8_FLAG, true);
+    view.setUint16(offset + 10, STORED, true);
+    view.setUint16(offset + 12, time, true);
+    view.setUint16(offset + 14, date, true);
+    view.setUint32(offset + 16, file.crc, true);
+    view.setUint32(offset + 20, file.data.length, true);
+    view.setUint32(offset + 24, file.data.length, true);
+    view.setUint16(offset + 28, file.nameBytes.length, true);
+    view.setUint32(offset + 42, offsets[index], true);
+    bytes.set(file.nameBytes, offset + 46);
+    offset += 46 + file.nameBytes.length;
+  });
+
+  view.setUint32(offset, END_OF_CENTRAL_DIRECTORY, true);
+  view.setUint16(offset + 8, files.length, true);
+  view.setUint16(offset + 10, files.length, true);
+  view.setUint32(offset + 12, offset - centralStart, true);
+  view.setUint32(offset + 16, centralStart, true);
+  return bytes;
+}
+
+async function inflate(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// Files in the archive, directories left out; throws on anything it cannot read
+export async function readZip(input: ArrayBuffer): Promise<ZipEntry[]> {
+  const bytes = new Uint8Array(input);
+  const view = new DataView(input);
+  const decoder = new TextDecoder();
+
+  // The end record sits in the last 22 bytes, unless a comment follows it
+  let end = bytes.length - 22;
+  while (end >= 0 && view.getUint32(end, true) !== END_OF_CENTRAL_DIRECTORY) end--;
+  if (end < 0) throw new Error('Not a ZIP archive');
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_HEADER) throw new Error('Damaged ZIP archive');
+    const method = view.getUint16(offset + 10, true);
+    const size = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+    if (name.endsWith('/')) continue;
+
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = bytes.slice(dataStart, dataStart + size);
+    if (method === STORED) entries.push({ name, data });
+    else if (method === DEFLATED) entries.push({ name, data: await inflate(data) });
+    else throw new Error(`Unsupported compression in ${name}`);
+  }
+  return entries;
+}
@@ -1,19 +1,108 @@
-// Content Types
+// Built-in content types; more can be registered in SiteSettings.contentTypes
 export const ContentType = {
   STORY: 'Story',
   POEM: 'Poetry',
   QUOTE: 'Quote'
 } as const;
 
-export type ContentTypeValue = typeof ContentType[keyof typeof ContentType];
+// Id of an entry in the content type registry (see lib/contentTypes.ts)
+export type ContentTypeValue = string;
+
+// How the public site lays out a piece of a given type
+export const TypeRenderer = {
+  PROSE: 'prose',
+  // Line by line, keeping stanzas and indentation
+  VERSE: 'verse',
+  QUOTE: 'quote'
+} as const;
+
+export type TypeRendererValue = typeof TypeRenderer[keyof typeof TypeRenderer];
+
+export const BadgeColor = {
+  BLUE: 'blue',
+  PURPLE: 'purple',
+  GREEN: 'green',
+  AMBER: 'amber',
+  ROSE: 'rose',
+  GRAY: 'gray'
+} as const;
+
+export type BadgeColorValue = typeof BadgeColor[keyof typeof BadgeColor];
+
+export interface ContentTypeDefinition {
+  // Stored in ContentItem.type; fixed once pieces use it
+  id: ContentTypeValue;
+  label: string;
+  plural: string;
+  // URL segment of the public list, e.g. "stories"
+  path: string;
+  navOrder: number;
+  // Quotes, for instance, have neither
+  hasTitle: boolean;
+  hasExcerpt: boolean;
+  badge: BadgeColorValue;
+  renderer: TypeRendererValue;
+}
+
+// Editorial workflow; items saved before statuses existed count as published
+export const ContentStatus = {
+  DRAFT: 'draft',
+  IN_REVIEW: 'in_review',
+  SCHEDULED: 'scheduled',
+  PUBLISHED: 'published',
+  ARCHIVED: 'archived'
+} as const;
+
+export type ContentStatusValue = typeof ContentStatus[keyof typeof ContentStatus];
 
 export interface ContentItem {
   id: string;
+  // URL identifier; older slugs are kept as redirects
+  slug?: string;
+  previousSlugs?: string[];
   type: ContentTypeValue;
   title?: string;
   body: string;
   excerpt?: string;
+  // Legacy free-text date ("Oct 24, 2023"), migrated to publishedAt on load
   date?: string;
+  // ISO timestamps; publishedAt is the date shown to readers
+  createdAt?: string;
+  updatedAt?: string;
+  publishedAt?: string;
+  // Free-form themes, stored normalized (lowercase, single spaces)
+  tags?: string[];
+  // Verse only: number every fifth line
+  lineNumbers?: boolean;
+  status?: ContentStatusValue;
+  // ISO timestamp; scheduled and published items stay hidden until then
+  publishAt?: string;
+  // Set while the piece is in the trash, with its former contentOrder index
+  deletedAt?: string;
+  trashedOrderIndex?: number;
+}
+
+// Immutable snapshot recorded on every save of a ContentItem
+export interface Revision {
+  id: string;
+  itemId: string;
+  title?: string;
+  excerpt?: string;
+  body: string;
+  author?: string;
+  createdAt: string;
+}
+
+// A series or chapbook: an ordered group of pieces read in sequence
+export interface Collection {
+  id: string;
+  slug: string;
+  title: string;
+  description?: string;
+  // Opening text shown on the collection page, like a cover or epigraph
+  coverText?: string;
+  // Member piece ids in reading order
+  itemIds: string[];
 }
 
 export interface SiteSettings {
@@ -22,8 +111,34 @@ export interface SiteSettings {
   authorName: string;
   authorBio: string;
   authorRoles: string[];
+  // Type registry; the built-in types are used while it is unset
+  contentTypes?: ContentTypeDefinition[];
+  // Days before trashed pieces are purged automatically; 0 disables purging
+  trashRetentionDays?: number;
 }
 
 export interface ContentMeta {
   contentOrder: string[];
 }
+
+// Editorial roles, from most to least privileged
+export const Role = {
+  OWNER: 'owner',
+  EDITOR: 'editor',
+  CONTRIBUTOR: 'contributor',
+  VIEWER: 'viewer'
+} as const;
+
+export type RoleValue = typeof Role[keyof typeof Role];
+
+export interface CmsUser {
+  uid: string;
+  email: string;
+  role: RoleValue;
+}
+
+export interface CmsInvite {
+  email: string;
+  role: RoleValue;
+  invitedBy: string;
+}